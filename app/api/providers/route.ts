@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import { buildProviderCatalog, getProviderRegistry } from "@/lib/provider-registry";
+
+const HEADERS: HeadersInit = {
+  "X-Content-Type-Options": "nosniff",
+  // Key status follows the deployment's env and config file, so never cache it
+  "Cache-Control": "no-store",
+};
+
+// Provider catalog: metadata, capabilities, pricing and whether the server is configured for each
+export async function GET() {
+  try {
+    const registry = await getProviderRegistry();
+    return NextResponse.json({ providers: buildProviderCatalog(registry) }, { headers: HEADERS });
+  } catch (error) {
+    console.error("Provider catalog error:", error);
+    return NextResponse.json(
+      { error: "Provider configuration could not be loaded" },
+      { status: 500, headers: HEADERS }
+    );
+  }
+}
+
+export async function POST() {
+  return NextResponse.json(
+    { error: "Method not allowed" },
+    { status: 405, headers: HEADERS }
+  );
+}
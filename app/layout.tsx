@@ -2,6 +2,7 @@ import React from "react"
 import type { Metadata } from 'next'
 import { Geist, Geist_Mono } from 'next/font/google'
 import { Analytics } from '@vercel/analytics/next'
+import { ProviderRegistryProvider } from '@/components/provider-registry'
 import './globals.css'
 
 const _geist = Geist({ subsets: ["latin"] });
@@ -52,7 +53,9 @@ export default function RootLayout({
   return (
     <html lang="en">
       <body className={`font-sans antialiased`}>
-        {children}
+        <ProviderRegistryProvider>
+          {children}
+        </ProviderRegistryProvider>
         <Analytics />
       </body>
     </html>
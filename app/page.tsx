@@ -1,19 +1,41 @@
 "use client";
 
-import { useState, useCallback, useMemo, useEffect } from "react";
-import { DocumentInput, type DocumentInput as DocumentInputType, type BlockWithProvider, SAMPLES } from "@/components/document-input";
+import { useState, useCallback, useMemo, useEffect, useRef } from "react";
+import {
+  DocumentInput,
+  type DocumentInput as DocumentInputType,
+  type BlockWithProvider,
+  type Sample,
+  SAMPLES,
+} from "@/components/document-input";
 import { FloatingHeader } from "@/components/floating-header";
 import { ParticleBackground } from "@/components/particle-background";
-import { ProviderSelector, providers } from "@/components/provider-selector";
+import { ProviderSelector } from "@/components/provider-selector";
+import { useProviderCatalog, useProviders } from "@/components/provider-registry";
 import { ResultCard } from "@/components/result-card";
 import { BlockViewerModal } from "@/components/block-viewer-modal";
 import { DetailViewerModal } from "@/components/detail-viewer-modal";
 import type { ParseResult, ParseOutputs, ParseStats } from "@/lib/types";
+import { inferMimeType, supportsMimeType, PDF_MIME_TYPE, type ProviderOptions } from "@/lib/providers";
+import { readSseEvents, SSE_CONTENT_TYPE } from "@/lib/sse";
+import {
+  DEFAULT_PROMPT_TEMPLATE_ID,
+  getPromptTemplate,
+  type PromptInfo,
+  type PromptSelection,
+} from "@/lib/prompts";
+import { PromptTemplateSelector } from "@/components/prompt-template-selector";
+import { ApiKeysPopover } from "@/components/api-keys-popover";
+import { API_KEYS_STORAGE_KEY, getApiKeyService } from "@/lib/api-keys";
 import { StatsSummary } from "@/components/stats-summary";
+import { AgreementMatrix } from "@/components/agreement-matrix";
+import { ReferencePopover } from "@/components/reference-popover";
+import { computeAgreement, scoreResult, type ReferenceTranscript, type ResultScores } from "@/lib/metrics";
+import { layoutAnnotationsSchema } from "@/lib/metrics/layout";
 import { Button } from "@/components/ui/button";
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
 import { Footer } from "@/components/footer";
-import { Play, RotateCcw, Zap, FileImage, Upload, Link } from "lucide-react";
+import { Play, RotateCcw, Square, Zap, FileImage, Upload, Link } from "lucide-react";
 
 interface RateLimitInfo {
   limit: number;
@@ -25,9 +47,28 @@ interface ParseDocumentResult {
   content: string;
   outputs?: ParseOutputs;
   stats: ParseStats;
+  prompt?: PromptInfo;
   rateLimit?: RateLimitInfo;
 }
 
+interface ParseDocumentRequest {
+  options?: ProviderOptions;
+  prompt?: PromptSelection; // Vision LLMs only
+  apiKey?: { header: string; value: string }; // User's own key for the provider's service
+  onDelta?: (text: string, pageIndex: number) => void; // Set to stream partial markdown
+  signal?: AbortSignal; // Cancels the request; the server stops upstream calls, except detached jobs
+}
+
+// Failed parse, with the server's stats when it sent them (e.g. how often it retried)
+class ParseRequestError extends Error {
+  constructor(message: string, readonly stats?: { time: number; retries?: number }) {
+    super(message);
+  }
+}
+
+// Edited prompt templates survive reloads
+const PROMPT_OVERRIDES_STORAGE_KEY = "parsebench:prompt-overrides";
+
 function extractRateLimit(response: Response): RateLimitInfo | undefined {
   const limit = response.headers.get("X-RateLimit-Limit");
   const remaining = response.headers.get("X-RateLimit-Remaining");
@@ -43,68 +84,110 @@ function extractRateLimit(response: Response): RateLimitInfo | undefined {
   return undefined;
 }
 
+// Read a parse response: plain JSON, or an SSE stream of markdown deltas ending in a result event
+async function readParseResponse(
+  response: Response,
+  onDelta?: (text: string, pageIndex: number) => void
+): Promise<ParseDocumentResult> {
+  const rateLimit = extractRateLimit(response);
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new ParseRequestError(error.error || "Failed to parse document", error.stats);
+  }
+
+  if (!response.headers.get("Content-Type")?.includes(SSE_CONTENT_TYPE)) {
+    const data = await response.json();
+    return { ...data, rateLimit };
+  }
+
+  let result: ParseDocumentResult | null = null;
+  let streamError: { error?: string; stats?: { time: number; retries?: number } } | null = null;
+  await readSseEvents(response, (event, data) => {
+    if (event === "delta") {
+      const { text, pageIndex } = data as { text: string; pageIndex: number };
+      onDelta?.(text, pageIndex);
+    } else if (event === "result") {
+      result = data as ParseDocumentResult;
+    } else if (event === "error") {
+      streamError = data as { error?: string; stats?: { time: number; retries?: number } };
+    }
+  });
+
+  if (streamError) {
+    const { error, stats } = streamError;
+    throw new ParseRequestError(error || "Failed to parse document", stats);
+  }
+  if (!result) throw new Error("Stream ended without a result");
+  return { ...(result as ParseDocumentResult), rateLimit };
+}
+
 async function parseDocument(
   input: DocumentInputType,
-  providerId: string
+  providerId: string,
+  { options, prompt, apiKey, onDelta, signal }: ParseDocumentRequest = {}
 ): Promise<ParseDocumentResult> {
+  // Ask for an event stream when the caller renders partial output
+  const accept = onDelta ? `${SSE_CONTENT_TYPE}, application/json` : "application/json";
+  const keyHeaders: Record<string, string> = apiKey ? { [apiKey.header]: apiKey.value } : {};
+
   if (input.mode === "file" && input.file) {
     const formData = new FormData();
     formData.append("file", input.file);
     formData.append("providerId", providerId);
+    if (options) {
+      formData.append("options", JSON.stringify(options));
+    }
+    if (prompt) {
+      formData.append("prompt", JSON.stringify(prompt));
+    }
 
     const response = await fetch("/api/parse", {
       method: "POST",
+      headers: {
+        "Accept": accept,
+        ...keyHeaders,
+      },
       body: formData,
+      signal,
     });
 
-    const rateLimit = extractRateLimit(response);
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.error || "Failed to parse document");
-    }
-
-    const data = await response.json();
-    return { ...data, rateLimit };
+    return readParseResponse(response, onDelta);
   } else if (input.mode === "url" && input.url) {
     const response = await fetch("/api/parse", {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
+        "Accept": accept,
+        ...keyHeaders,
       },
       body: JSON.stringify({
         url: input.url,
         providerId,
+        options,
+        prompt,
       }),
+      signal,
     });
 
-    const rateLimit = extractRateLimit(response);
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.error || "Failed to parse document");
-    }
-
-    const data = await response.json();
-    return { ...data, rateLimit };
+    return readParseResponse(response, onDelta);
   }
 
   throw new Error("Invalid input");
 }
 
-// Document parser providers that support PDFs
-const DOCUMENT_PARSER_IDS = ["llamaparse", "mistral-ocr", "datalab-marker"];
+const DEFAULT_SELECTED_PROVIDERS = ["llamaparse", "mistral-ocr", "datalab-marker", "gpt-4o"];
 
 export default function Home() {
+  const providers = useProviders();
+  const catalog = useProviderCatalog();
   const [documentInput, setDocumentInput] = useState<DocumentInputType | null>(null);
-  const [selectedProviders, setSelectedProviders] = useState<string[]>([
-    "llamaparse",
-    "mistral-ocr",
-    "datalab-marker",
-    "gpt-4o",
-  ]);
+  const [selectedProviders, setSelectedProviders] = useState<string[]>(DEFAULT_SELECTED_PROVIDERS);
+  const [providerOptions, setProviderOptions] = useState<Record<string, ProviderOptions>>({});
   const [results, setResults] = useState<ParseResult[]>([]);
   const [isRunning, setIsRunning] = useState(false);
+  // Aborts the in-flight run; replaced on every start
+  const runControllerRef = useRef<AbortController | null>(null);
   const [hoveredBlockId, setHoveredBlockId] = useState<string | null>(null);
   const [selectedBlock, setSelectedBlock] = useState<{ blockId: string; providerId: string } | null>(null);
   
@@ -115,11 +198,29 @@ export default function Home() {
   
   // Rate limit tracking
   const [rateLimit, setRateLimit] = useState<RateLimitInfo | null>(null);
+
+  // Prompt template for vision LLMs, with locally stored edits
+  const [promptTemplateId, setPromptTemplateId] = useState(DEFAULT_PROMPT_TEMPLATE_ID);
+  const [promptOverrides, setPromptOverrides] = useState<Record<string, string>>({});
+
+  // User API keys by provider type (bring-your-own-key), kept in this browser only
+  const [apiKeys, setApiKeys] = useState<Record<string, string>>({});
+
+  // Reference transcript (and tables) for accuracy scoring; samples bring their own
+  const [reference, setReference] = useState<ReferenceTranscript | null>(null);
   
   // Empty state input handling
   const [emptyStateUrl, setEmptyStateUrl] = useState("");
   const [isDraggingEmpty, setIsDraggingEmpty] = useState(false);
 
+  // Drop selections the deployment's provider config hides once the catalog has loaded
+  useEffect(() => {
+    setSelectedProviders((prev) => {
+      const available = prev.filter((id) => providers.some((p) => p.id === id));
+      return available.length === prev.length ? prev : available;
+    });
+  }, [providers]);
+
   // Generate document preview URL when input changes
   useEffect(() => {
     if (documentInput?.mode === "file" && documentInput.file) {
@@ -133,6 +234,96 @@ export default function Home() {
     }
   }, [documentInput]);
 
+  // A new document invalidates the reference; load the sample's ground truth when there is one
+  useEffect(() => {
+    setReference(null);
+    const sample = SAMPLES.find((s) => s.id === documentInput?.sampleId);
+    if (!sample) return;
+    let cancelled = false;
+    // Each file is optional: a missing or broken one only disables its own metric
+    const loadText = (path: string | null) =>
+      path
+        ? fetch(path)
+            .then((response) => (response.ok ? response.text() : null))
+            .catch(() => null)
+        : Promise.resolve(null);
+    const parseLayout = (layout: string | null) => {
+      if (!layout) return undefined;
+      try {
+        return layoutAnnotationsSchema.parse(JSON.parse(layout));
+      } catch (error) {
+        console.warn(`Invalid layout annotations for sample ${sample.id}:`, error);
+        return undefined;
+      }
+    };
+    void Promise.all([loadText(sample.reference), loadText(sample.tables), loadText(sample.layout)]).then(
+      ([markdown, tables, layout]) => {
+        // Without a transcript results are simply not scored
+        if (cancelled || !markdown) return;
+        setReference({
+          markdown,
+          source: "sample",
+          tables: tables ?? undefined,
+          layout: parseLayout(layout),
+        });
+      }
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [documentInput]);
+
+  useEffect(() => {
+    try {
+      const stored = localStorage.getItem(PROMPT_OVERRIDES_STORAGE_KEY);
+      if (stored) setPromptOverrides(JSON.parse(stored));
+    } catch {
+      // Ignore unreadable storage
+    }
+    try {
+      const storedKeys = localStorage.getItem(API_KEYS_STORAGE_KEY);
+      if (storedKeys) setApiKeys(JSON.parse(storedKeys));
+    } catch {
+      // Ignore unreadable storage
+    }
+  }, []);
+
+  const updatePromptOverride = useCallback((templateId: string, text: string | null) => {
+    setPromptOverrides((prev) => {
+      const next = { ...prev };
+      if (text === null) delete next[templateId];
+      else next[templateId] = text;
+      localStorage.setItem(PROMPT_OVERRIDES_STORAGE_KEY, JSON.stringify(next));
+      return next;
+    });
+  }, []);
+
+  const updateApiKey = useCallback((providerType: string, key: string | null) => {
+    setApiKeys((prev) => {
+      const next = { ...prev };
+      if (key === null) delete next[providerType];
+      else next[providerType] = key;
+      localStorage.setItem(API_KEYS_STORAGE_KEY, JSON.stringify(next));
+      return next;
+    });
+  }, []);
+
+  // Providers the server cannot run, unless the user brought a key for the missing one
+  const unavailableProviders = useMemo(() => {
+    const reasons: Record<string, string> = {};
+    for (const entry of catalog ?? []) {
+      if (entry.configured) continue;
+      const keyService = getApiKeyService(entry.type);
+      if (entry.missing === "api-key" && keyService && apiKeys[keyService.providerType]) continue;
+      reasons[entry.id] = entry.missing === "endpoint"
+        ? "Endpoint not configured on the server"
+        : keyService
+          ? "API key not configured: add your own key"
+          : "API key not configured";
+    }
+    return reasons;
+  }, [catalog, apiKeys]);
+
   const handleBlockHover = useCallback((blockId: string | null) => {
     setHoveredBlockId(blockId);
   }, []);
@@ -179,7 +370,33 @@ export default function Home() {
     }
     
     return blocks;
-  }, [results]);
+  }, [results, providers]);
+
+  // Finished results keep their object identity while other cards stream, so cache scores
+  // per reference and result instead of recomputing every edit distance on each delta
+  const scoreCacheRef = useRef(new WeakMap<ReferenceTranscript, WeakMap<ParseResult, ResultScores>>());
+  const resultScores = useMemo(() => {
+    const scores: Record<string, ResultScores> = {};
+    if (!reference) return scores;
+    let scoreCache = scoreCacheRef.current.get(reference);
+    if (!scoreCache) {
+      scoreCache = new WeakMap();
+      scoreCacheRef.current.set(reference, scoreCache);
+    }
+    for (const result of results) {
+      if (result.status !== "complete" || result.content === undefined) continue;
+      let score = scoreCache.get(result);
+      if (score === undefined) {
+        score = scoreResult(result, reference);
+        scoreCache.set(result, score);
+      }
+      scores[result.providerId] = score;
+    }
+    return scores;
+  }, [results, reference]);
+
+  // Consensus between providers works without a reference; pair similarities are cached per result
+  const agreement = useMemo(() => computeAgreement(results), [results]);
 
   const toggleProvider = useCallback((id: string) => {
     setSelectedProviders((prev) =>
@@ -187,14 +404,18 @@ export default function Home() {
     );
   }, []);
 
-  const loadSample = useCallback(async (sampleFile: string, sampleName: string) => {
+  const updateProviderOptions = useCallback((id: string, options: ProviderOptions) => {
+    setProviderOptions((prev) => ({ ...prev, [id]: options }));
+  }, []);
+
+  const loadSample = useCallback(async (sample: Sample) => {
     try {
-      const response = await fetch(sampleFile);
+      const response = await fetch(sample.file);
       if (!response.ok) throw new Error("Failed to load sample");
       const blob = await response.blob();
-      const fileName = sampleFile.split("/").pop() || `${sampleName}.png`;
+      const fileName = sample.file.split("/").pop() || `${sample.name}.png`;
       const file = new File([blob], fileName, { type: blob.type });
-      setDocumentInput({ mode: "file", file });
+      setDocumentInput({ mode: "file", file, sampleId: sample.id });
     } catch (error) {
       console.error("Failed to load sample:", error);
     }
@@ -231,24 +452,42 @@ export default function Home() {
     }
   }, [emptyStateUrl]);
 
+  // Abort any in-flight run when leaving the page
+  useEffect(() => () => runControllerRef.current?.abort(), []);
+
   const startBenchmark = useCallback(async () => {
     if (!documentInput || selectedProviders.length === 0) return;
 
+    const controller = new AbortController();
+    runControllerRef.current = controller;
+    const runStartTime = performance.now();
     setIsRunning(true);
 
-    // Check if input is PDF
-    const isPdf = documentInput.mode === "file" 
-      ? (documentInput.file?.type === "application/pdf" || documentInput.file?.name.toLowerCase().endsWith(".pdf"))
-      : documentInput.url?.toLowerCase().endsWith(".pdf");
+    // Detect input type from the file (or URL extension)
+    const inputMimeType = documentInput.mode === "file"
+      ? (documentInput.file?.type || inferMimeType(documentInput.file?.name ?? ""))
+      : inferMimeType(documentInput.url ?? "");
+
+    // Only run providers that accept this input type
+    const isSupported = (id: string) => {
+      const provider = providers.find((p) => p.id === id);
+      return !inputMimeType || !provider || supportsMimeType(provider, inputMimeType);
+    };
 
-    // Initialize results - mark Vision LLMs as skipped for PDFs
+    // Initialize results - mark unsupported and unconfigured providers as skipped
     const initialResults: ParseResult[] = selectedProviders.map((id) => {
-      const isVisionLlm = !DOCUMENT_PARSER_IDS.includes(id);
-      if (isPdf && isVisionLlm) {
+      if (!isSupported(id)) {
+        return {
+          providerId: id,
+          status: "skipped" as const,
+          skipReason: inputMimeType === PDF_MIME_TYPE ? "PDF not supported" : "File type not supported",
+        };
+      }
+      if (unavailableProviders[id]) {
         return {
           providerId: id,
           status: "skipped" as const,
-          skipReason: "PDF not supported by Vision LLMs",
+          skipReason: unavailableProviders[id],
         };
       }
       return {
@@ -258,15 +497,44 @@ export default function Home() {
     });
     setResults(initialResults);
 
-    // Only run document parsers for PDFs, all providers for images
-    const providersToRun = isPdf 
-      ? selectedProviders.filter(id => DOCUMENT_PARSER_IDS.includes(id))
-      : selectedProviders;
+    const providersToRun = selectedProviders.filter((id) => isSupported(id) && !unavailableProviders[id]);
+
+    // Same prompt for every vision LLM in this run
+    const promptTemplate = getPromptTemplate(promptTemplateId);
+    const promptSelection: PromptSelection | undefined = promptTemplate
+      ? { templateId: promptTemplate.id, text: promptOverrides[promptTemplate.id] ?? promptTemplate.prompt }
+      : undefined;
 
     // Run providers in parallel
     const promises = providersToRun.map(async (providerId) => {
+      // Streaming providers render markdown as it arrives, one buffer per page
+      const provider = providers.find((p) => p.id === providerId);
+      const pageTexts: string[] = [];
+      const streamedContent = () => Array.from(pageTexts, (page) => page ?? "").join("\n\n---\n\n");
+      const onDelta = provider?.capabilities.streaming
+        ? (text: string, pageIndex: number) => {
+            pageTexts[pageIndex] = (pageTexts[pageIndex] ?? "") + text;
+            const content = streamedContent();
+            setResults((prev) =>
+              prev.map((r) => (r.providerId === providerId && r.status === "parsing" ? { ...r, content } : r))
+            );
+          }
+        : undefined;
+
+      // Only the key for this provider's service leaves the browser
+      const keyService = provider ? getApiKeyService(provider.type) : null;
+      const apiKey = keyService && apiKeys[keyService.providerType]
+        ? { header: keyService.header, value: apiKeys[keyService.providerType] }
+        : undefined;
+
       try {
-        const result = await parseDocument(documentInput, providerId);
+        const result = await parseDocument(documentInput, providerId, {
+          options: providerOptions[providerId],
+          prompt: provider?.category === "vision-llm" ? promptSelection : undefined,
+          apiKey,
+          onDelta,
+          signal: controller.signal,
+        });
         // Update rate limit from the latest response
         if (result.rateLimit) {
           setRateLimit(result.rateLimit);
@@ -277,29 +545,53 @@ export default function Home() {
           content: result.content,
           outputs: result.outputs,
           stats: result.stats,
+          prompt: result.prompt,
         };
       } catch (error) {
+        if (controller.signal.aborted) {
+          // Keep whatever had streamed in before the cancel
+          return {
+            providerId,
+            status: "cancelled" as const,
+            content: pageTexts.length > 0 ? streamedContent() : undefined,
+            stats: { time: (performance.now() - runStartTime) / 1000, cost: 0, tokens: 0 },
+          };
+        }
         return {
           providerId,
           status: "error" as const,
           error: error instanceof Error ? error.message : "Unknown error",
-          stats: { time: 0, cost: 0, tokens: 0 },
+          stats: {
+            time: error instanceof ParseRequestError ? (error.stats?.time ?? 0) : 0,
+            cost: 0,
+            tokens: 0,
+            retries: error instanceof ParseRequestError ? error.stats?.retries : undefined,
+          },
         };
       }
     });
 
-    // Update results as they complete
+    // Update results as they complete; stop once a reset or a newer run replaced this one
     for (const promise of promises) {
       const result = await promise;
+      if (runControllerRef.current !== controller) return;
       setResults((prev) =>
         prev.map((r) => (r.providerId === result.providerId ? result : r))
       );
     }
 
+    runControllerRef.current = null;
     setIsRunning(false);
-  }, [documentInput, selectedProviders]);
+  }, [documentInput, selectedProviders, providerOptions, providers, promptTemplateId, promptOverrides, apiKeys, unavailableProviders]);
+
+  // Stop the run but keep the finished results; pending ones end up cancelled
+  const cancelBenchmark = useCallback(() => {
+    runControllerRef.current?.abort();
+  }, []);
 
   const resetBenchmark = useCallback(() => {
+    runControllerRef.current?.abort();
+    runControllerRef.current = null;
     setResults([]);
     setIsRunning(false);
   }, []);
@@ -343,6 +635,11 @@ export default function Home() {
                     selectedBlockId={selectedBlock?.blockId}
                     onBlockSelect={handleBlockSelect}
                   />
+                  {hasInput && (
+                    <div className="mt-2">
+                      <ReferencePopover reference={reference} onReferenceChange={setReference} />
+                    </div>
+                  )}
                 </div>
 
                 {/* Providers + Run Button */}
@@ -355,8 +652,21 @@ export default function Home() {
                       <ProviderSelector
                         selected={selectedProviders}
                         onToggle={toggleProvider}
+                        options={providerOptions}
+                        onOptionsChange={updateProviderOptions}
+                        unavailable={unavailableProviders}
                         compact
                       />
+                      {selectedProviderData.some((p) => p.category === "vision-llm") && (
+                        <div className="mt-3">
+                          <PromptTemplateSelector
+                            templateId={promptTemplateId}
+                            overrides={promptOverrides}
+                            onTemplateChange={setPromptTemplateId}
+                            onPromptChange={updatePromptOverride}
+                          />
+                        </div>
+                      )}
                     </div>
                     <div className="flex gap-2 shrink-0 w-full sm:w-auto items-center">
                       <Button
@@ -367,16 +677,27 @@ export default function Home() {
                         <Play className="w-4 h-4 mr-2" />
                         {isRunning ? "Running..." : "Run Benchmark"}
                       </Button>
+                      {isRunning && (
+                        <Button
+                          variant="outline"
+                          size="icon"
+                          onClick={cancelBenchmark}
+                          title="Cancel run"
+                        >
+                          <Square className="w-4 h-4" />
+                        </Button>
+                      )}
                       {results.length > 0 && (
                         <Button
                           variant="outline"
                           size="icon"
                           onClick={resetBenchmark}
-                          disabled={isRunning}
+                          title={isRunning ? "Cancel and clear results" : "Clear results"}
                         >
                           <RotateCcw className="w-4 h-4" />
                         </Button>
                       )}
+                      <ApiKeysPopover keys={apiKeys} onKeyChange={updateApiKey} />
                       {rateLimit && (
                         <Tooltip>
                           <TooltipTrigger asChild>
@@ -481,7 +802,7 @@ export default function Home() {
                         {SAMPLES.map((sample) => (
                           <button
                             key={sample.id}
-                            onClick={() => loadSample(sample.file, sample.name)}
+                            onClick={() => loadSample(sample)}
                             className="group relative overflow-hidden border border-white/10 bg-black/40 hover:bg-white/5 hover:border-white/20 transition-all p-3 text-left"
                           >
                             <div className="aspect-[4/3] mb-2 bg-white/5 overflow-hidden flex items-center justify-center">
@@ -522,12 +843,15 @@ export default function Home() {
                             selectedBlockId={isSelectedProvider ? selectedBlock?.blockId : null}
                             onViewBlocks={() => handleViewBlocks(provider.id)}
                             onViewDetail={() => handleViewDetail(provider.id)}
+                            scores={resultScores[provider.id]}
                           />
                         );
                       })}
                     </div>
 
-                    <StatsSummary results={results} providers={providers} />
+                    <StatsSummary results={results} providers={providers} scores={resultScores} />
+
+                    {agreement && <AgreementMatrix agreement={agreement} providers={providers} />}
                   </div>
                 )}
               </div>
@@ -559,6 +883,7 @@ export default function Home() {
             provider={provider}
             blocks={blocks}
             documentSrc={documentPreviewSrc}
+            readingOrder={resultScores[provider.id]?.readingOrder}
             allProviderIds={providersWithBlocks}
             onNavigate={setBlockViewerProviderId}
           />
@@ -0,0 +1,103 @@
+"use client";
+
+import { AlertTriangle } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { ProviderConfig } from "@/lib/providers";
+import type { AgreementMatrix as Agreement } from "@/lib/metrics";
+
+interface AgreementMatrixProps {
+  agreement: Agreement;
+  providers: ProviderConfig[];
+}
+
+// Red (no overlap) to green (identical text)
+function cellColor(similarity: number): string {
+  return `hsl(${Math.round(similarity * 120)} 70% 35% / 0.85)`;
+}
+
+// Consensus heatmap: how similar each pair of providers' text is, without a reference
+export function AgreementMatrix({ agreement, providers }: AgreementMatrixProps) {
+  const getProvider = (id: string) => providers.find((p) => p.id === id);
+  const getProviderName = (id: string) => getProvider(id)?.name ?? id;
+  const { providerIds, similarity, meanAgreement, outlier } = agreement;
+  const outlierIndex = outlier ? providerIds.indexOf(outlier) : -1;
+
+  return (
+    <div className="border border-white/10 bg-black/40 backdrop-blur-md p-6">
+      <h3 className="text-sm font-medium text-muted-foreground mb-1 uppercase tracking-wider">
+        Provider Agreement
+      </h3>
+      <p className="text-xs text-muted-foreground mb-4">
+        Word-level similarity between outputs after markup and whitespace are normalized.
+      </p>
+
+      <div className="overflow-x-auto">
+        <table className="border-separate border-spacing-0.5 text-xs">
+          <thead>
+            <tr>
+              <th />
+              {providerIds.map((id) => (
+                <th
+                  key={id}
+                  className="px-1 pb-1 font-normal text-muted-foreground max-w-20 truncate"
+                  title={getProviderName(id)}
+                >
+                  <div className="flex items-center justify-center gap-1">
+                    <div className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: getProvider(id)?.color }} />
+                    <span className="truncate">{getProviderName(id)}</span>
+                  </div>
+                </th>
+              ))}
+              <th className="pl-3 pb-1 font-normal text-muted-foreground text-left">Mean</th>
+            </tr>
+          </thead>
+          <tbody>
+            {providerIds.map((rowId, i) => (
+              <tr key={rowId}>
+                <th
+                  className={cn(
+                    "pr-2 font-normal text-left whitespace-nowrap",
+                    i === outlierIndex ? "text-amber-400" : "text-foreground"
+                  )}
+                >
+                  {getProviderName(rowId)}
+                </th>
+                {similarity[i].map((value, j) => (
+                  <td
+                    key={providerIds[j]}
+                    className="w-14 h-8 text-center tabular-nums text-white"
+                    style={{ backgroundColor: value === null ? "rgba(255,255,255,0.05)" : cellColor(value) }}
+                    title={
+                      value === null
+                        ? i === j
+                          ? undefined
+                          : "Too long to compare"
+                        : `${getProviderName(rowId)} vs ${getProviderName(providerIds[j])}: ${(value * 100).toFixed(1)}%`
+                    }
+                  >
+                    {value === null ? (i === j ? "" : "–") : `${(value * 100).toFixed(0)}%`}
+                  </td>
+                ))}
+                <td
+                  className={cn(
+                    "pl-3 tabular-nums",
+                    i === outlierIndex ? "text-amber-400" : "text-muted-foreground"
+                  )}
+                >
+                  {meanAgreement[i] === null ? "–" : `${(meanAgreement[i]! * 100).toFixed(1)}%`}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {outlier && (
+        <p className="mt-4 flex items-center gap-1.5 text-xs text-amber-400">
+          <AlertTriangle className="w-3.5 h-3.5" />
+          {getProviderName(outlier)} disagrees most with the other providers; check its output first.
+        </p>
+      )}
+    </div>
+  );
+}
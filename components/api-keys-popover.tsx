@@ -0,0 +1,77 @@
+"use client";
+
+import { cn } from "@/lib/utils";
+import { KeyRound, X } from "lucide-react";
+import { API_KEY_SERVICES, MAX_API_KEY_LENGTH } from "@/lib/api-keys";
+import { useProviders } from "@/components/provider-registry";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+
+interface ApiKeysPopoverProps {
+  keys: Record<string, string>; // User keys by provider type
+  onKeyChange: (providerType: string, key: string | null) => void; // null removes the key
+}
+
+// Bring-your-own-key editor for the services the deployment's providers use
+export function ApiKeysPopover({ keys, onKeyChange }: ApiKeysPopoverProps) {
+  const providers = useProviders();
+  const services = API_KEY_SERVICES.filter((service) =>
+    providers.some((provider) => provider.type === service.providerType)
+  );
+  const keyCount = services.filter((service) => keys[service.providerType]).length;
+
+  if (services.length === 0) return null;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          size="icon"
+          className={cn(keyCount > 0 && "bg-white/15 text-white")}
+          title={keyCount > 0 ? `Your API keys (${keyCount} set)` : "Use your own API keys"}
+        >
+          <KeyRound className="w-4 h-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent side="bottom" align="end" className="w-80 p-3 rounded-none border-white/10 bg-[#131010]">
+        <p className="text-xs font-medium text-foreground">Your API keys</p>
+        <p className="text-[10px] text-muted-foreground mb-3">
+          Stored in this browser only and sent with each request; never saved on the server. Empty fields use the
+          deployment&apos;s keys.
+        </p>
+        <div className="space-y-2">
+          {services.map((service) => (
+            <label key={service.providerType} className="block space-y-1">
+              <span className="block text-xs text-foreground">{service.label}</span>
+              <span className="flex items-stretch gap-px">
+                <input
+                  type="password"
+                  autoComplete="off"
+                  spellCheck={false}
+                  value={keys[service.providerType] ?? ""}
+                  maxLength={MAX_API_KEY_LENGTH}
+                  placeholder="Deployment key"
+                  onChange={(e) => onKeyChange(service.providerType, e.target.value.trim() || null)}
+                  className="flex-1 min-w-0 px-2 py-1 bg-black/40 border border-white/10 text-xs font-mono text-foreground placeholder:text-muted-foreground focus:outline-none focus:border-white/30"
+                />
+                {keys[service.providerType] && (
+                  <button
+                    onClick={(e) => {
+                      e.preventDefault();
+                      onKeyChange(service.providerType, null);
+                    }}
+                    className="px-1.5 bg-white/5 text-white/40 hover:bg-white/10 hover:text-white/80"
+                    title={`Remove ${service.label} key`}
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                )}
+              </span>
+            </label>
+          ))}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -11,6 +11,7 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { cn } from "@/lib/utils";
 import type { ParseBlock } from "@/lib/types";
 import type { ProviderConfig } from "@/lib/providers";
+import type { ReadingOrderScore } from "@/lib/metrics";
 import {
   Box,
   Type,
@@ -23,6 +24,7 @@ import {
   ChevronRight,
   ChevronDown,
   ChevronLeft,
+  ListOrdered,
 } from "lucide-react";
 
 interface BlockViewerModalProps {
@@ -31,6 +33,7 @@ interface BlockViewerModalProps {
   provider: ProviderConfig;
   blocks: ParseBlock[];
   documentSrc: string | null;
+  readingOrder?: ReadingOrderScore | null; // Against the reference, when one is set
   // Navigation props
   allProviderIds?: string[];
   onNavigate?: (providerId: string) => void;
@@ -63,11 +66,13 @@ const typeColors: Record<string, string> = {
 
 function BlockItem({
   block,
+  order,
   isHovered,
   onHover,
   onClick,
 }: {
   block: ParseBlock;
+  order: number | null; // Position in emitted order, shown when reading order is on
   isHovered: boolean;
   onHover: (block: ParseBlock | null) => void;
   onClick: (block: ParseBlock) => void;
@@ -101,6 +106,9 @@ function BlockItem({
         </div>
         <div className="flex-1 min-w-0">
           <div className="flex items-center gap-2">
+            {order !== null && (
+              <span className="text-[10px] font-mono text-white/50 tabular-nums">#{order}</span>
+            )}
             <span className="text-xs font-medium text-white/90 capitalize">
               {block.type}
             </span>
@@ -152,11 +160,13 @@ export function BlockViewerModal({
   provider,
   blocks,
   documentSrc,
+  readingOrder,
   allProviderIds = [],
   onNavigate,
 }: BlockViewerModalProps) {
   const [hoveredBlock, setHoveredBlock] = useState<ParseBlock | null>(null);
   const [selectedBlock, setSelectedBlock] = useState<ParseBlock | null>(null);
+  const [showOrder, setShowOrder] = useState(false);
   const blockListRef = useRef<HTMLDivElement>(null);
   const blockRefs = useRef<Map<string, HTMLDivElement>>(new Map());
 
@@ -211,6 +221,12 @@ export function BlockViewerModal({
     [blocks]
   );
 
+  // Blocks are numbered in the order the provider emitted them
+  const blockOrder = useMemo(
+    () => new Map(blocks.map((block, index) => [block.id, index + 1])),
+    [blocks]
+  );
+
   const blocksByType = useMemo(() => {
     const counts: Record<string, number> = {};
     for (const block of blocks) {
@@ -239,33 +255,56 @@ export function BlockViewerModal({
               </span>
             </div>
             
-            {/* Navigation controls */}
-            {canNavigate && (
-              <div className="flex items-center gap-2">
-                <button
-                  onClick={navigatePrevious}
-                  disabled={!hasPrevious}
-                  className="p-1.5 hover:bg-white/10 disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
-                  aria-label="Previous result"
-                >
-                  <ChevronLeft className="w-4 h-4" />
-                </button>
-                <span className="text-xs text-white/50 tabular-nums min-w-[3ch] text-center">
-                  {currentIndex + 1}/{allProviderIds.length}
-                </span>
-                <button
-                  onClick={navigateNext}
-                  disabled={!hasNext}
-                  className="p-1.5 hover:bg-white/10 disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
-                  aria-label="Next result"
-                >
-                  <ChevronRight className="w-4 h-4" />
-                </button>
-                <span className="text-xs text-white/30 ml-2 hidden sm:inline">
-                  ← → to navigate
-                </span>
-              </div>
-            )}
+            <div className="flex items-center gap-2">
+              {/* Reading order toggle */}
+              <button
+                onClick={() => setShowOrder(!showOrder)}
+                className={cn(
+                  "flex items-center gap-1.5 px-2 py-1 text-xs font-normal transition-colors",
+                  showOrder ? "bg-white/15 text-white" : "text-white/50 hover:bg-white/10"
+                )}
+                aria-pressed={showOrder}
+                title={
+                  readingOrder
+                    ? `Kendall's tau ${readingOrder.tau.toFixed(2)} against the reference (${readingOrder.aligned}/${readingOrder.segments} segments aligned)`
+                    : "Number blocks in the order the provider emitted them"
+                }
+              >
+                <ListOrdered className="w-3.5 h-3.5" />
+                Reading order
+                {readingOrder && (
+                  <span className="tabular-nums">τ {readingOrder.tau.toFixed(2)}</span>
+                )}
+              </button>
+
+              {/* Navigation controls */}
+              {canNavigate && (
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={navigatePrevious}
+                    disabled={!hasPrevious}
+                    className="p-1.5 hover:bg-white/10 disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
+                    aria-label="Previous result"
+                  >
+                    <ChevronLeft className="w-4 h-4" />
+                  </button>
+                  <span className="text-xs text-white/50 tabular-nums min-w-[3ch] text-center">
+                    {currentIndex + 1}/{allProviderIds.length}
+                  </span>
+                  <button
+                    onClick={navigateNext}
+                    disabled={!hasNext}
+                    className="p-1.5 hover:bg-white/10 disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
+                    aria-label="Next result"
+                  >
+                    <ChevronRight className="w-4 h-4" />
+                  </button>
+                  <span className="text-xs text-white/30 ml-2 hidden sm:inline">
+                    ← → to navigate
+                  </span>
+                </div>
+              )}
+            </div>
           </DialogTitle>
         </DialogHeader>
 
@@ -315,6 +354,15 @@ export function BlockViewerModal({
                           : ""
                       }`}
                     >
+                      {/* Emitted position */}
+                      {showOrder && (
+                        <div
+                          className="absolute top-0 left-0 min-w-4 px-1 text-[10px] font-medium leading-4 text-center text-white tabular-nums"
+                          style={{ backgroundColor: color }}
+                        >
+                          {blockOrder.get(block.id)}
+                        </div>
+                      )}
                       {/* Type label on hover */}
                       {(isHovered || isSelected) && (
                         <div
@@ -372,6 +420,7 @@ export function BlockViewerModal({
                   >
                     <BlockItem
                       block={block}
+                      order={showOrder ? blockOrder.get(block.id) ?? null : null}
                       isHovered={
                         hoveredBlock?.id === block.id ||
                         selectedBlock?.id === block.id
@@ -7,19 +7,63 @@ import type { ParseBlock } from "@/lib/types";
 
 export type InputMode = "file" | "url";
 
-// Preloaded sample documents
+// Preloaded sample documents, each with a reference transcript (markdown) for accuracy scoring
+// and, where annotated, ground-truth tables (HTML with spans) and layout regions (JSON)
 export const SAMPLES = [
-  { id: "invoice", name: "Invoice", file: "/samples/invoice.png", description: "Standard business invoice" },
-  { id: "financial", name: "Financial 10-K", file: "/samples/financial-10k.png", description: "SEC financial report" },
-  { id: "handwritten", name: "Handwritten", file: "/samples/handwritten-invoice.png", description: "Handwritten notes" },
-  { id: "healthcare", name: "Healthcare", file: "/samples/healthcare-details-disclaimers.png", description: "Medical document" },
-  { id: "math", name: "Math Heavy", file: "/samples/math-heavy-documents.png", description: "Mathematical formulas" },
+  {
+    id: "invoice",
+    name: "Invoice",
+    file: "/samples/invoice.png",
+    reference: "/samples/invoice.md",
+    tables: "/samples/invoice.tables.html",
+    layout: "/samples/invoice.layout.json",
+    description: "Standard business invoice",
+  },
+  {
+    id: "financial",
+    name: "Financial 10-K",
+    file: "/samples/financial-10k.png",
+    reference: "/samples/financial-10k.md",
+    tables: "/samples/financial-10k.tables.html",
+    layout: "/samples/financial-10k.layout.json",
+    description: "SEC financial report",
+  },
+  {
+    id: "handwritten",
+    name: "Handwritten",
+    file: "/samples/handwritten-invoice.png",
+    reference: "/samples/handwritten-invoice.md",
+    tables: null,
+    layout: null,
+    description: "Handwritten notes",
+  },
+  {
+    id: "healthcare",
+    name: "Healthcare",
+    file: "/samples/healthcare-details-disclaimers.png",
+    reference: "/samples/healthcare-details-disclaimers.md",
+    tables: null,
+    layout: null,
+    description: "Medical document",
+  },
+  {
+    id: "math",
+    name: "Math Heavy",
+    file: "/samples/math-heavy-documents.png",
+    reference: "/samples/math-heavy-documents.md",
+    tables: null,
+    layout: "/samples/math-heavy-documents.layout.json",
+    description: "Mathematical formulas",
+  },
 ] as const;
 
+export type Sample = (typeof SAMPLES)[number];
+
 export interface DocumentInput {
   mode: InputMode;
   file?: File;
   url?: string;
+  sampleId?: Sample["id"]; // Set when loaded from SAMPLES, so the sample's reference can be used
 }
 
 // Block with provider info for overlay rendering
@@ -249,15 +293,15 @@ export function DocumentInput({
   );
 
   const loadSample = useCallback(
-    async (sampleFile: string, sampleName: string) => {
+    async (sample: Sample) => {
       setError(null);
       try {
-        const response = await fetch(sampleFile);
+        const response = await fetch(sample.file);
         if (!response.ok) throw new Error("Failed to load sample");
         const blob = await response.blob();
-        const fileName = sampleFile.split("/").pop() || `${sampleName}.png`;
+        const fileName = sample.file.split("/").pop() || `${sample.name}.png`;
         const file = new File([blob], fileName, { type: blob.type });
-        onInputChange({ mode: "file", file });
+        onInputChange({ mode: "file", file, sampleId: sample.id });
       } catch {
         setError("Failed to load sample document");
       }
@@ -408,7 +452,7 @@ export function DocumentInput({
               {SAMPLES.map((sample) => (
                 <button
                   key={sample.id}
-                  onClick={() => loadSample(sample.file, sample.name)}
+                  onClick={() => loadSample(sample)}
                   className="px-2 py-1 text-xs bg-white/5 border border-white/10 text-muted-foreground hover:text-foreground hover:bg-white/10 transition-colors flex items-center gap-1"
                 >
                   <FileImage className="w-3 h-3" />
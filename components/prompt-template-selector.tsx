@@ -0,0 +1,88 @@
+"use client";
+
+import { cn } from "@/lib/utils";
+import { MessageSquareText, Pencil } from "lucide-react";
+import { MAX_PROMPT_LENGTH, PROMPT_TEMPLATES, getPromptTemplate } from "@/lib/prompts";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+
+interface PromptTemplateSelectorProps {
+  templateId: string;
+  overrides: Record<string, string>; // Edited prompt text by template id
+  onTemplateChange: (templateId: string) => void;
+  onPromptChange: (templateId: string, text: string | null) => void; // null restores the built-in text
+}
+
+// Prompt template picker for vision LLMs, with an editor for the selected template
+export function PromptTemplateSelector({
+  templateId,
+  overrides,
+  onTemplateChange,
+  onPromptChange,
+}: PromptTemplateSelectorProps) {
+  const template = getPromptTemplate(templateId) ?? PROMPT_TEMPLATES[0];
+  const text = overrides[template.id] ?? template.prompt;
+  const isEdited = text !== template.prompt;
+
+  return (
+    <div className="flex items-center gap-1.5">
+      <MessageSquareText className="w-3 h-3 text-white/40" />
+      <span className="text-[10px] uppercase tracking-wider text-white/40 font-medium mr-1">
+        Prompt
+      </span>
+      <select
+        value={template.id}
+        onChange={(e) => onTemplateChange(e.target.value)}
+        title={template.description}
+        className="px-2 py-1 bg-white/5 border border-white/10 text-xs text-foreground focus:outline-none focus:border-white/30"
+      >
+        {PROMPT_TEMPLATES.map((option) => (
+          <option key={option.id} value={option.id}>
+            {option.name}
+            {overrides[option.id] !== undefined && overrides[option.id] !== option.prompt ? " (edited)" : ""}
+          </option>
+        ))}
+      </select>
+      <Popover>
+        <PopoverTrigger asChild>
+          <button
+            className={cn(
+              "flex items-center px-1.5 py-1.5 transition-colors",
+              isEdited
+                ? "bg-white/15 text-white"
+                : "bg-white/5 text-white/40 hover:bg-white/10 hover:text-white/80"
+            )}
+            title="Edit prompt"
+          >
+            <Pencil className="w-3 h-3" />
+          </button>
+        </PopoverTrigger>
+        <PopoverContent side="bottom" align="start" className="w-[28rem] p-3 rounded-none border-white/10 bg-[#131010]">
+          <div className="flex items-center justify-between mb-2">
+            <div>
+              <p className="text-xs font-medium text-foreground">{template.name} prompt</p>
+              <p className="text-[10px] text-muted-foreground">{template.description}</p>
+            </div>
+            {isEdited && (
+              <button
+                onClick={() => onPromptChange(template.id, null)}
+                className="text-[10px] text-muted-foreground hover:text-foreground"
+              >
+                Reset
+              </button>
+            )}
+          </div>
+          <textarea
+            value={text}
+            maxLength={MAX_PROMPT_LENGTH}
+            rows={14}
+            onChange={(e) => onPromptChange(template.id, e.target.value)}
+            className="w-full px-2 py-1 bg-black/40 border border-white/10 text-xs font-mono text-foreground focus:outline-none focus:border-white/30 resize-y"
+          />
+          <p className="mt-1 text-[10px] text-muted-foreground">
+            Used by vision LLMs in markdown mode. {text.length}/{MAX_PROMPT_LENGTH}
+          </p>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+"use client";
+
+import { createContext, useContext, useEffect, useMemo, useState } from "react";
+import { PROVIDERS, type ProviderCatalogEntry, type ProviderConfig } from "@/lib/providers";
+
+interface ProviderRegistryValue {
+  providers: ProviderConfig[];
+  catalog: ProviderCatalogEntry[] | null; // From GET /api/providers; null until loaded or if it failed
+}
+
+// Providers from the deployment's provider config (see lib/provider-registry), fetched from
+// GET /api/providers so pages stay static and a broken config file only breaks that endpoint
+const ProviderRegistryContext = createContext<ProviderRegistryValue>({ providers: PROVIDERS, catalog: null });
+
+export function ProviderRegistryProvider({ children }: { children: React.ReactNode }) {
+  const [catalog, setCatalog] = useState<ProviderCatalogEntry[] | null>(null);
+
+  // Configured providers and their setup status (API keys, endpoints) come from the catalog endpoint
+  useEffect(() => {
+    let cancelled = false;
+    fetch("/api/providers")
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data: { providers: ProviderCatalogEntry[] } | null) => {
+        if (!cancelled && data) setCatalog(data.providers);
+      })
+      .catch(() => {
+        // Without the catalog the built-in providers are offered
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const value = useMemo(() => ({ providers: catalog ?? PROVIDERS, catalog }), [catalog]);
+
+  return (
+    <ProviderRegistryContext.Provider value={value}>
+      {children}
+    </ProviderRegistryContext.Provider>
+  );
+}
+
+export function useProviders(): ProviderConfig[] {
+  return useContext(ProviderRegistryContext).providers;
+}
+
+export function useProviderCatalog(): ProviderCatalogEntry[] | null {
+  return useContext(ProviderRegistryContext).catalog;
+}
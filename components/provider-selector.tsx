@@ -1,22 +1,31 @@
 "use client";
 
 import { cn } from "@/lib/utils";
-import { Check, FileText, Sparkles } from "lucide-react";
-import { PROVIDERS, type ProviderConfig } from "@/lib/providers";
+import { Check, FileText, Sparkles, SlidersHorizontal } from "lucide-react";
+import {
+  getDefaultOptions,
+  type ProviderConfig,
+  type ProviderOptionField,
+  type ProviderOptions,
+} from "@/lib/providers";
 import {
   Tooltip,
   TooltipContent,
   TooltipProvider,
   TooltipTrigger,
 } from "@/components/ui/tooltip";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { useProviders } from "@/components/provider-registry";
 
 // Re-export for convenience
 export type { ProviderConfig };
-export { PROVIDERS as providers };
 
 interface ProviderSelectorProps {
   selected: string[];
   onToggle: (id: string) => void;
+  options?: Record<string, ProviderOptions>;
+  onOptionsChange?: (id: string, options: ProviderOptions) => void;
+  unavailable?: Record<string, string>; // Reason by provider id; these cannot be selected
   compact?: boolean;
 }
 
@@ -34,26 +43,176 @@ const categoryInfo = {
   },
 };
 
+// Single option input, rendered according to its field type
+function OptionInput({
+  field,
+  value,
+  onChange,
+}: {
+  field: ProviderOptionField;
+  value: string | boolean | number | undefined;
+  onChange: (value: string | boolean | number | undefined) => void; // undefined clears the option
+}) {
+  if (field.type === "boolean") {
+    return (
+      <label className="flex items-start gap-2 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={Boolean(value)}
+          onChange={(e) => onChange(e.target.checked)}
+          className="mt-0.5 accent-white"
+        />
+        <span>
+          <span className="block text-xs text-foreground">{field.label}</span>
+          {field.description && (
+            <span className="block text-[10px] text-muted-foreground">{field.description}</span>
+          )}
+        </span>
+      </label>
+    );
+  }
+
+  return (
+    <label className="block space-y-1">
+      <span className="block text-xs text-foreground">{field.label}</span>
+      {field.type === "number" ? (
+        <input
+          type="number"
+          value={value === undefined ? "" : String(value)}
+          min={field.min}
+          max={field.max}
+          step={field.step ?? (field.integer ? 1 : "any")}
+          placeholder="Default"
+          onChange={(e) => {
+            const number = e.target.valueAsNumber;
+            onChange(e.target.value === "" || !Number.isFinite(number) ? undefined : number);
+          }}
+          className="w-full px-2 py-1 bg-black/40 border border-white/10 text-xs text-foreground placeholder:text-muted-foreground focus:outline-none focus:border-white/30"
+        />
+      ) : field.type === "select" ? (
+        <select
+          value={String(value)}
+          onChange={(e) => onChange(e.target.value)}
+          className="w-full px-2 py-1 bg-black/40 border border-white/10 text-xs text-foreground focus:outline-none focus:border-white/30"
+        >
+          {field.choices.map((choice) => (
+            <option key={choice} value={choice}>
+              {choice}
+            </option>
+          ))}
+        </select>
+      ) : (
+        <textarea
+          value={String(value)}
+          maxLength={field.maxLength}
+          rows={3}
+          onChange={(e) => onChange(e.target.value)}
+          className="w-full px-2 py-1 bg-black/40 border border-white/10 text-xs text-foreground placeholder:text-muted-foreground focus:outline-none focus:border-white/30 resize-none"
+        />
+      )}
+      {field.description && (
+        <span className="block text-[10px] text-muted-foreground">{field.description}</span>
+      )}
+    </label>
+  );
+}
+
+// Options panel for providers that expose provider-specific knobs
+function ProviderOptionsPanel({
+  provider,
+  options,
+  onChange,
+}: {
+  provider: ProviderConfig;
+  options?: ProviderOptions;
+  onChange: (id: string, options: ProviderOptions) => void;
+}) {
+  const fields = provider.options ?? [];
+  const defaults = getDefaultOptions(provider);
+  const values = { ...defaults, ...options };
+  const isCustomized = fields.some((field) => values[field.key] !== field.default);
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          className={cn(
+            "flex items-center px-1.5 py-1 transition-colors",
+            isCustomized
+              ? "bg-white/15 text-white"
+              : "bg-white/5 text-white/40 hover:bg-white/10 hover:text-white/80"
+          )}
+          title={`${provider.name} options`}
+        >
+          <SlidersHorizontal className="w-3 h-3" />
+        </button>
+      </PopoverTrigger>
+      <PopoverContent side="bottom" align="start" className="w-64 p-3 rounded-none border-white/10 bg-[#131010]">
+        <div className="flex items-center justify-between mb-3">
+          <p className="text-xs font-medium text-foreground">{provider.name} options</p>
+          {isCustomized && (
+            <button
+              onClick={() => onChange(provider.id, defaults)}
+              className="text-[10px] text-muted-foreground hover:text-foreground"
+            >
+              Reset
+            </button>
+          )}
+        </div>
+        <div className="space-y-3">
+          {fields.map((field) => (
+            <OptionInput
+              key={field.key}
+              field={field}
+              value={values[field.key]}
+              onChange={(value) => {
+                const next = { ...values };
+                if (value === undefined) {
+                  delete next[field.key];
+                } else {
+                  next[field.key] = value;
+                }
+                onChange(provider.id, next);
+              }}
+            />
+          ))}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
 // Compact provider chip with tooltip
 function ProviderChip({
   provider,
   isSelected,
   onToggle,
+  options,
+  onOptionsChange,
+  unavailableReason,
 }: {
   provider: ProviderConfig;
   isSelected: boolean;
   onToggle: (id: string) => void;
+  options?: ProviderOptions;
+  onOptionsChange?: (id: string, options: ProviderOptions) => void;
+  unavailableReason?: string;
 }) {
-  return (
+  // Unavailable providers can still be deselected, but not selected
+  const isDisabled = Boolean(unavailableReason) && !isSelected;
+
+  const chip = (
     <Tooltip>
       <TooltipTrigger asChild>
         <button
-          onClick={() => onToggle(provider.id)}
+          onClick={() => !isDisabled && onToggle(provider.id)}
+          aria-disabled={isDisabled}
           className={cn(
             "flex items-center gap-1.5 px-2 py-1 text-xs font-medium transition-all duration-200",
             isSelected
               ? "bg-white/15 text-white"
-              : "bg-white/5 text-white/60 hover:bg-white/10 hover:text-white/80"
+              : "bg-white/5 text-white/60 hover:bg-white/10 hover:text-white/80",
+            isDisabled && "opacity-40 cursor-not-allowed hover:bg-white/5 hover:text-white/60"
           )}
           style={{
             borderLeft: `3px solid ${isSelected ? provider.color : 'transparent'}`,
@@ -78,19 +237,40 @@ function ProviderChip({
           <p className="font-medium text-xs">{provider.name}</p>
           <p className="text-[10px] text-muted-foreground">{provider.model}</p>
           <p className="text-[10px] text-muted-foreground">{provider.description}</p>
+          {unavailableReason && <p className="text-[10px] text-amber-400">{unavailableReason}</p>}
         </div>
       </TooltipContent>
     </Tooltip>
   );
+
+  if (!provider.options?.length || !onOptionsChange) {
+    return chip;
+  }
+
+  return (
+    <div className="flex items-stretch gap-px">
+      {chip}
+      <ProviderOptionsPanel provider={provider} options={options} onChange={onOptionsChange} />
+    </div>
+  );
 }
 
-export function ProviderSelector({ selected, onToggle, compact = false }: ProviderSelectorProps) {
+export function ProviderSelector({
+  selected,
+  onToggle,
+  options,
+  onOptionsChange,
+  unavailable,
+  compact = false,
+}: ProviderSelectorProps) {
+  const providers = useProviders();
+
   // Group providers by category for compact view
-  const parsers = PROVIDERS.filter(p => p.category === "parser");
-  const visionLLMs = PROVIDERS.filter(p => p.category === "vision-llm");
+  const parsers = providers.filter(p => p.category === "parser");
+  const visionLLMs = providers.filter(p => p.category === "vision-llm");
 
   // Group providers by company for expanded view
-  const grouped = PROVIDERS.reduce((acc, provider) => {
+  const grouped = providers.reduce((acc, provider) => {
     if (!acc[provider.description]) {
       acc[provider.description] = [];
     }
@@ -125,6 +305,9 @@ export function ProviderSelector({ selected, onToggle, compact = false }: Provid
                   provider={provider}
                   isSelected={selected.includes(provider.id)}
                   onToggle={onToggle}
+                  options={options?.[provider.id]}
+                  onOptionsChange={onOptionsChange}
+                  unavailableReason={unavailable?.[provider.id]}
                 />
               ))}
             </div>
@@ -142,7 +325,7 @@ export function ProviderSelector({ selected, onToggle, compact = false }: Provid
                   <span className="text-[10px] text-white/30 cursor-help">(?)</span>
                 </TooltipTrigger>
                 <TooltipContent side="top" className="max-w-xs">
-                  <p className="text-xs">Large language models with vision capabilities via AI Gateway</p>
+                  <p className="text-xs">Large language models with vision capabilities via AI Gateway or an OpenAI-compatible endpoint</p>
                 </TooltipContent>
               </Tooltip>
             </div>
@@ -153,6 +336,9 @@ export function ProviderSelector({ selected, onToggle, compact = false }: Provid
                   provider={provider}
                   isSelected={selected.includes(provider.id)}
                   onToggle={onToggle}
+                  options={options?.[provider.id]}
+                  onOptionsChange={onOptionsChange}
+                  unavailableReason={unavailable?.[provider.id]}
                 />
               ))}
             </div>
@@ -164,20 +350,23 @@ export function ProviderSelector({ selected, onToggle, compact = false }: Provid
 
   return (
     <div className="space-y-3">
-      {Object.entries(grouped).map(([company, providers]) => (
+      {Object.entries(grouped).map(([company, companyProviders]) => (
         <div key={company}>
           <p className="text-[10px] uppercase tracking-wider text-muted-foreground mb-1 px-1">
             {company}
           </p>
           <div className="space-y-0.5">
-            {providers.map((provider) => {
+            {companyProviders.map((provider) => {
               const isSelected = selected.includes(provider.id);
+              const unavailableReason = unavailable?.[provider.id];
               return (
                 <button
                   key={provider.id}
                   onClick={() => onToggle(provider.id)}
+                  disabled={Boolean(unavailableReason) && !isSelected}
+                  title={unavailableReason}
                   className={cn(
-                    "w-full flex items-center gap-2 px-2 py-1.5 border transition-all duration-200 text-left backdrop-blur-sm",
+                    "w-full flex items-center gap-2 px-2 py-1.5 border transition-all duration-200 text-left backdrop-blur-sm disabled:opacity-40 disabled:cursor-not-allowed",
                     isSelected
                       ? "border-white/20 bg-white/10"
                       : "border-transparent hover:bg-white/5"
@@ -0,0 +1,129 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { cn } from "@/lib/utils";
+import { FileCheck, LayoutGrid, Upload, X } from "lucide-react";
+import type { LayoutAnnotations, ReferenceTranscript } from "@/lib/metrics";
+import { layoutAnnotationsSchema } from "@/lib/metrics/layout";
+import { MAX_SCORED_CHARS, isReferenceTooLong } from "@/lib/metrics/text";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+
+interface ReferencePopoverProps {
+  reference: ReferenceTranscript | null;
+  onReferenceChange: (reference: ReferenceTranscript | null) => void;
+}
+
+// Reference editor: results are scored against the transcript (CER/WER, TEDS) and the
+// layout annotations (detection mAP) when set
+export function ReferencePopover({ reference, onReferenceChange }: ReferencePopoverProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const layoutInputRef = useRef<HTMLInputElement>(null);
+  const [layoutError, setLayoutError] = useState<string | null>(null);
+  const tooLong = reference !== null && isReferenceTooLong(reference.markdown);
+  const layoutRegions = reference?.layout?.pages.reduce((sum, page) => sum + page.blocks.length, 0) ?? 0;
+
+  // Edits make the transcript the user's; layout annotations are kept
+  const update = (markdown: string, layout: LayoutAnnotations | undefined) => {
+    onReferenceChange(markdown.trim() || layout ? { markdown, source: "user", layout } : null);
+  };
+
+  const loadFile = async (file: File) => {
+    update(await file.text(), reference?.layout);
+  };
+
+  const loadLayout = async (file: File) => {
+    try {
+      const layout = layoutAnnotationsSchema.parse(JSON.parse(await file.text()));
+      setLayoutError(null);
+      update(reference?.markdown ?? "", layout);
+    } catch {
+      setLayoutError('Expected { "pages": [{ "blocks": [{ "type", "bbox": { x, y, w, h } }] }] } with 0-1 coordinates');
+    }
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          className={cn("w-full justify-start gap-2 text-xs", reference && "bg-white/15 text-white")}
+          title={reference ? "Results are scored against this reference" : "Add a reference transcript to score accuracy"}
+        >
+          <FileCheck className="w-3.5 h-3.5" />
+          {reference
+            ? `Reference: ${reference.source === "sample" ? "sample transcript" : "yours"}`
+            : "Add reference transcript"}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent side="bottom" align="start" className="w-96 p-3 rounded-none border-white/10 bg-[#131010]">
+        <p className="text-xs font-medium text-foreground">Reference transcript</p>
+        <p className="text-[10px] text-muted-foreground mb-3">
+          The correct text of the document as markdown. Each result is scored by character and word error rate after
+          markup, punctuation variants and whitespace are normalized. Its tables (markdown, or HTML with rowspan and
+          colspan) are the reference for table structure scoring, and its paragraph order for reading order. Layout
+          annotations (JSON, regions per page) score the block bounding boxes.
+        </p>
+        <textarea
+          value={reference?.markdown ?? ""}
+          onChange={(e) => update(e.target.value, reference?.layout)}
+          placeholder="Paste the expected markdown…"
+          spellCheck={false}
+          rows={10}
+          className="w-full px-2 py-1.5 bg-black/40 border border-white/10 text-xs font-mono text-foreground placeholder:text-muted-foreground focus:outline-none focus:border-white/30 resize-y"
+        />
+        {tooLong && (
+          <p className="mt-1 text-[10px] text-amber-400">
+            Longer than {MAX_SCORED_CHARS.toLocaleString()} characters; text accuracy will not be scored.
+          </p>
+        )}
+        {reference?.layout && (
+          <p className="mt-2 flex items-center gap-1 text-[10px] text-muted-foreground">
+            <LayoutGrid className="w-3 h-3" />
+            Layout: {layoutRegions} regions on {reference.layout.pages.length} page(s)
+          </p>
+        )}
+        {layoutError && <p className="mt-1 text-[10px] text-destructive">{layoutError}</p>}
+        <div className="mt-2 flex flex-wrap gap-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".md,.markdown,.txt"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) void loadFile(file);
+              e.target.value = "";
+            }}
+          />
+          <Button variant="outline" size="sm" className="text-xs" onClick={() => fileInputRef.current?.click()}>
+            <Upload className="w-3 h-3" />
+            Load file
+          </Button>
+          <input
+            ref={layoutInputRef}
+            type="file"
+            accept=".json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) void loadLayout(file);
+              e.target.value = "";
+            }}
+          />
+          <Button variant="outline" size="sm" className="text-xs" onClick={() => layoutInputRef.current?.click()}>
+            <LayoutGrid className="w-3 h-3" />
+            Load layout
+          </Button>
+          {reference && (
+            <Button variant="outline" size="sm" className="text-xs" onClick={() => onReferenceChange(null)}>
+              <X className="w-3 h-3" />
+              Remove
+            </Button>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
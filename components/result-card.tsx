@@ -1,8 +1,25 @@
 "use client";
 
-import { Clock, DollarSign, Hash, Loader2, AlertCircle, FileText, Maximize2, Eye, FileX } from "lucide-react";
+import {
+  Clock,
+  DollarSign,
+  Hash,
+  Loader2,
+  AlertCircle,
+  AlertTriangle,
+  Ban,
+  FileText,
+  Maximize2,
+  Eye,
+  FileX,
+  Target,
+} from "lucide-react";
 import type { ProviderConfig } from "@/lib/providers";
-import type { ParseResult } from "@/lib/types";
+import { getPromptTemplate } from "@/lib/prompts";
+import type { GenerationSettings, ParseResult } from "@/lib/types";
+import type { LayoutScore, ResultScores, TableScore } from "@/lib/metrics";
+import { MAX_SCORED_CHARS } from "@/lib/metrics/text";
+import { cn } from "@/lib/utils";
 import { MarkdownRenderer } from "./markdown-renderer";
 import { HtmlViewer } from "./html-viewer";
 import { JsonBlockViewer } from "./json-block-viewer";
@@ -18,17 +35,61 @@ interface ResultCardProps {
   selectedBlockId?: string | null;
   onViewBlocks?: () => void;
   onViewDetail?: () => void;
+  scores?: ResultScores; // Accuracy against the reference, when one is set
 }
 
-export function ResultCard({ provider, result, onBlockHover, selectedBlockId, onViewBlocks, onViewDetail }: ResultCardProps) {
-  const isPageBasedProvider = provider.type === "llamaparse" || provider.type === "mistral-ocr" || provider.type === "datalab-marker";
+// Compact summary of the generation parameters that were set (model defaults are omitted)
+function formatGeneration(generation: GenerationSettings): string {
+  const parts: string[] = [];
+  if (generation.temperature !== undefined) parts.push(`temp ${generation.temperature}`);
+  if (generation.maxOutputTokens !== undefined) parts.push(`max ${generation.maxOutputTokens.toLocaleString()} tok`);
+  if (generation.seed !== undefined) parts.push(`seed ${generation.seed}`);
+  if (generation.reasoningBudget !== undefined) parts.push(`thinking ${generation.reasoningBudget.toLocaleString()}`);
+  return parts.join(" · ");
+}
+
+// Per-type precision/recall/AP for the layout tooltip
+function formatLayoutScores(layoutScore: LayoutScore): string {
+  const percent = (value: number) => `${(value * 100).toFixed(0)}%`;
+  const lines = layoutScore.types.map(
+    (type) =>
+      `${type.type}: P ${percent(type.precision)} · R ${percent(type.recall)} · AP ${percent(type.ap)} (${type.predicted} found / ${type.truth} expected)`
+  );
+  return [...lines, `mAP@0.5:0.95 ${percent(layoutScore.mapCoco)}`].join("\n");
+}
+
+// Per-table breakdown for the TEDS tooltip
+function formatTableScores(tableScore: TableScore): string {
+  const lines = tableScore.tables.map((table, i) => {
+    const size = `${table.rowCount}×${table.columnCount}`;
+    return table.matchedIndex === null
+      ? `Table ${i + 1} (${size}): not found`
+      : `Table ${i + 1} (${size}): TEDS ${(table.teds * 100).toFixed(1)}%, structure ${(table.structure * 100).toFixed(1)}%`;
+  });
+  return [...lines, `${tableScore.outputTables} table(s) in the output`].join("\n");
+}
+
+export function ResultCard({
+  provider,
+  result,
+  onBlockHover,
+  selectedBlockId,
+  onViewBlocks,
+  onViewDetail,
+  scores,
+}: ResultCardProps) {
+  const score = scores?.text;
+  // Runaway output is only partly aligned, so its error rates are upper bounds
+  const bound = score?.truncated ? "≤ " : "";
+  const { capabilities } = provider;
+  const isPageBasedProvider = capabilities.billing === "page";
   
-  const hasHtml = result.outputs?.html && result.outputs.html.length > 0;
-  const hasJson = result.outputs?.json?.blocks && result.outputs.json.blocks.length > 0;
+  const hasHtml = capabilities.html && result.outputs?.html && result.outputs.html.length > 0;
+  const hasJson = capabilities.json && result.outputs?.json?.blocks && result.outputs.json.blocks.length > 0;
   const hasRichOutput = hasHtml || hasJson;
   
   // Check if we have blocks with bounding boxes for the viewer
-  const blocksWithBbox = result.outputs?.json?.blocks?.filter(b => b.bbox) || [];
+  const blocksWithBbox = capabilities.bboxes ? result.outputs?.json?.blocks?.filter(b => b.bbox) || [] : [];
   const hasBlocksWithBbox = blocksWithBbox.length > 0;
   
   return (
@@ -40,6 +101,15 @@ export function ResultCard({ provider, result, onBlockHover, selectedBlockId, on
             style={{ backgroundColor: provider.color }}
           />
           <h3 className="font-medium text-foreground text-sm">{provider.name}</h3>
+          {result.prompt && (
+            <span
+              className="text-[10px] text-muted-foreground font-mono"
+              title={`Prompt template${result.prompt.edited ? " (edited)" : ""}, SHA-256 ${result.prompt.hash}`}
+            >
+              {getPromptTemplate(result.prompt.template)?.name ?? result.prompt.template}
+              {result.prompt.edited ? "*" : ""} · {result.prompt.hash}
+            </span>
+          )}
         </div>
         <div className="flex items-center gap-1.5">
           {result.status === "complete" && hasBlocksWithBbox && onViewBlocks && (
@@ -71,6 +141,9 @@ export function ResultCard({ provider, result, onBlockHover, selectedBlockId, on
           {result.status === "skipped" && (
             <span className="text-[10px] text-muted-foreground uppercase tracking-wider">Skipped</span>
           )}
+          {result.status === "cancelled" && (
+            <span className="text-[10px] text-muted-foreground uppercase tracking-wider">Cancelled</span>
+          )}
         </div>
       </div>
 
@@ -81,7 +154,17 @@ export function ResultCard({ provider, result, onBlockHover, selectedBlockId, on
           </div>
         )}
 
-        {result.status === "parsing" && (
+        {result.status === "parsing" && result.content && (
+          // Streaming providers: render markdown as it arrives
+          <ScrollArea className="h-[420px]">
+            <div className="p-4 prose-sm overflow-hidden">
+              <MarkdownRenderer content={result.content} />
+              <span className="inline-block w-1.5 h-3.5 bg-white/50 animate-pulse align-middle" />
+            </div>
+          </ScrollArea>
+        )}
+
+        {result.status === "parsing" && !result.content && (
           <div className="p-4 space-y-3">
             <div className="h-3 bg-secondary animate-pulse" />
             <div className="h-3 bg-secondary animate-pulse w-4/5" />
@@ -158,6 +241,27 @@ export function ResultCard({ provider, result, onBlockHover, selectedBlockId, on
           </div>
         )}
 
+        {result.status === "cancelled" && result.content && (
+          // Partial streamed output from before the cancel
+          <ScrollArea className="h-[420px]">
+            <div className="p-4 prose-sm overflow-hidden opacity-60">
+              <MarkdownRenderer content={result.content} />
+            </div>
+          </ScrollArea>
+        )}
+
+        {result.status === "cancelled" && !result.content && (
+          <div className="h-full p-4 flex flex-col items-center justify-center text-center">
+            <Ban className="w-8 h-8 text-muted-foreground/50 mb-2" />
+            <p className="text-sm text-muted-foreground">Cancelled</p>
+            {capabilities.detachedJob && (
+              <p className="text-xs text-muted-foreground/70 mt-1">
+                {provider.name} keeps processing the submitted job and may still bill for it
+              </p>
+            )}
+          </div>
+        )}
+
         {result.status === "skipped" && (
           <div className="h-full p-4 flex flex-col items-center justify-center text-center">
             <FileX className="w-8 h-8 text-muted-foreground/50 mb-2" />
@@ -170,7 +274,7 @@ export function ResultCard({ provider, result, onBlockHover, selectedBlockId, on
 
       {result.status === "complete" && result.stats && (
         <div className="p-4 border-t border-white/10 bg-white/5">
-          <div className="grid grid-cols-3 gap-2">
+          <div className={cn("grid gap-2", score || scores?.textTooLong ? "grid-cols-4" : "grid-cols-3")}>
             <div className="text-center">
               <div className="flex items-center justify-center gap-1 text-muted-foreground mb-1">
                 <Clock className="w-3 h-3" />
@@ -179,6 +283,21 @@ export function ResultCard({ provider, result, onBlockHover, selectedBlockId, on
               <p className="text-sm font-medium text-foreground">
                 {result.stats.time.toFixed(2)}s
               </p>
+              {result.stats.ttft !== undefined && (
+                <p className="text-[10px] text-muted-foreground" title="Time to first token">
+                  TTFT {result.stats.ttft.toFixed(2)}s
+                </p>
+              )}
+              {result.stats.queueTime !== undefined && (
+                <p className="text-[10px] text-muted-foreground" title="Time the upstream job spent queued and processing">
+                  Queue {result.stats.queueTime.toFixed(1)}s · {result.stats.polls} polls
+                </p>
+              )}
+              {!!result.stats.retries && (
+                <p className="text-[10px] text-amber-400" title="Upstream requests repeated after transient failures">
+                  {result.stats.retries} {result.stats.retries === 1 ? "retry" : "retries"}
+                </p>
+              )}
             </div>
             <div className="text-center">
               <div className="flex items-center justify-center gap-1 text-muted-foreground mb-1">
@@ -203,7 +322,86 @@ export function ResultCard({ provider, result, onBlockHover, selectedBlockId, on
                 }
               </p>
             </div>
+            {score && (
+              <div className="text-center">
+                <div className="flex items-center justify-center gap-1 text-muted-foreground mb-1">
+                  <Target className="w-3 h-3" />
+                  <span className="text-[10px] uppercase tracking-wider">Accuracy</span>
+                </div>
+                <p className="text-sm font-medium text-foreground" title="1 - character error rate against the reference">
+                  {(score.accuracy * 100).toFixed(1)}%
+                </p>
+                <p
+                  className="text-[10px] text-muted-foreground"
+                  title={
+                    score.truncated
+                      ? "Character / word error rate; output this long is partly counted as insertions, so the rates are upper bounds (CER is at least 100%)"
+                      : "Character / word error rate"
+                  }
+                >
+                  CER {bound}{(score.cer * 100).toFixed(1)}% · WER {bound}{(score.wer * 100).toFixed(1)}%
+                </p>
+              </div>
+            )}
+            {!score && scores?.textTooLong && (
+              <div className="text-center">
+                <div className="flex items-center justify-center gap-1 text-muted-foreground mb-1">
+                  <Target className="w-3 h-3" />
+                  <span className="text-[10px] uppercase tracking-wider">Accuracy</span>
+                </div>
+                <p
+                  className="text-sm font-medium text-muted-foreground"
+                  title={`The reference is longer than ${MAX_SCORED_CHARS.toLocaleString()} characters`}
+                >
+                  Too long to score
+                </p>
+              </div>
+            )}
           </div>
+          {scores?.tables && (
+            <p
+              className="mt-2 text-center text-[10px] text-muted-foreground cursor-help"
+              title={formatTableScores(scores.tables)}
+            >
+              Tables (TEDS) {(scores.tables.teds * 100).toFixed(1)}% · structure {(scores.tables.structure * 100).toFixed(1)}%
+              {" · "}
+              {scores.tables.tables.filter((table) => table.matchedIndex !== null).length}/{scores.tables.tables.length} found
+            </p>
+          )}
+          {scores?.layout && (
+            <p
+              className="mt-1 text-center text-[10px] text-muted-foreground cursor-help"
+              title={formatLayoutScores(scores.layout)}
+            >
+              Layout mAP@0.5 {(scores.layout.map * 100).toFixed(1)}%
+              {scores.layout.types
+                .filter((type) => type.type === "table" || type.type === "figure")
+                .map((type) => ` · ${type.type} AP ${(type.ap * 100).toFixed(0)}%`)
+                .join("")}
+            </p>
+          )}
+          {scores?.readingOrder && (
+            <p
+              className="mt-1 text-center text-[10px] text-muted-foreground cursor-help"
+              title={`Kendall's tau between the emitted order and the reference order, over ${scores.readingOrder.aligned} of ${scores.readingOrder.segments} segments aligned to the reference`}
+            >
+              Reading order τ {scores.readingOrder.tau.toFixed(2)} · {(scores.readingOrder.agreement * 100).toFixed(1)}% pairs in order
+            </p>
+          )}
+          {result.stats.generation && formatGeneration(result.stats.generation) && (
+            <p className="mt-2 text-center text-[10px] text-muted-foreground font-mono" title="Generation parameters">
+              {formatGeneration(result.stats.generation)}
+            </p>
+          )}
+          {result.stats.truncatedPages && (
+            <p
+              className="mt-2 flex items-center justify-center gap-1 text-[10px] text-amber-400"
+              title="The model stopped at the output token limit; raise Max output tokens to get the rest"
+            >
+              <AlertTriangle className="w-3 h-3" />
+              Truncated at the token limit (page {result.stats.truncatedPages.join(", ")})
+            </p>
+          )}
         </div>
       )}
 
@@ -211,7 +409,19 @@ export function ResultCard({ provider, result, onBlockHover, selectedBlockId, on
         <div className="p-4 border-t border-white/10 bg-destructive/5">
           <div className="flex items-center justify-center gap-1 text-muted-foreground">
             <Clock className="w-3 h-3" />
-            <span className="text-xs">Failed after {result.stats.time.toFixed(2)}s</span>
+            <span className="text-xs">
+              Failed after {result.stats.time.toFixed(2)}s
+              {!!result.stats.retries && ` · ${result.stats.retries} ${result.stats.retries === 1 ? "retry" : "retries"}`}
+            </span>
+          </div>
+        </div>
+      )}
+
+      {result.status === "cancelled" && result.stats && (
+        <div className="p-4 border-t border-white/10 bg-white/5">
+          <div className="flex items-center justify-center gap-1 text-muted-foreground">
+            <Clock className="w-3 h-3" />
+            <span className="text-xs">Cancelled after {result.stats.time.toFixed(2)}s</span>
           </div>
         </div>
       )}
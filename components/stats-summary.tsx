@@ -1,15 +1,18 @@
 "use client";
 
-import { Trophy, Zap, Hash } from "lucide-react";
+import { Trophy, Zap, Hash, Target, LayoutGrid } from "lucide-react";
+import { cn } from "@/lib/utils";
 import type { ParseResult } from "@/lib/types";
 import type { ProviderConfig } from "@/lib/providers";
+import type { ResultScores } from "@/lib/metrics";
 
 interface StatsSummaryProps {
   results: ParseResult[];
   providers: ProviderConfig[];
+  scores?: Record<string, ResultScores>; // By provider id, when a reference transcript is set
 }
 
-export function StatsSummary({ results, providers }: StatsSummaryProps) {
+export function StatsSummary({ results, providers, scores = {} }: StatsSummaryProps) {
   const completedResults = results.filter(
     (r) => r.status === "complete" && r.stats
   );
@@ -34,6 +37,27 @@ export function StatsSummary({ results, providers }: StatsSummaryProps) {
     (curr.stats?.tokens ?? 0) > (prev.stats?.tokens ?? 0) ? curr : prev
   );
 
+  // With a reference, accuracy replaces token count (which rewards verbose or invented output)
+  const textScore = (r: ParseResult) => scores[r.providerId]?.text ?? null;
+  const scoredResults = completedResults.filter((r) => textScore(r));
+  const mostAccurate = scoredResults.length > 0
+    ? scoredResults.reduce((prev, curr) =>
+        textScore(curr)!.cer < textScore(prev)!.cer ? curr : prev
+      )
+    : null;
+
+  // Layout winner by mAP over tables and figures, the regions retrieval depends on most
+  const layoutScore = (r: ParseResult) => {
+    const layout = scores[r.providerId]?.layout;
+    if (!layout) return null;
+    const key = layout.types.filter((type) => type.type === "table" || type.type === "figure");
+    return key.length > 0 ? key.reduce((sum, type) => sum + type.ap, 0) / key.length : layout.map;
+  };
+  const layoutResults = completedResults.filter((r) => layoutScore(r) !== null);
+  const bestLayout = layoutResults.length > 0
+    ? layoutResults.reduce((prev, curr) => (layoutScore(curr)! > layoutScore(prev)! ? curr : prev))
+    : null;
+
   const getProviderName = (id: string) =>
     providers.find((p) => p.id === id)?.name ?? id;
 
@@ -55,13 +79,32 @@ export function StatsSummary({ results, providers }: StatsSummaryProps) {
       icon: Trophy,
       color: getProviderColor(cheapest.providerId),
     },
-    {
-      label: "Most Detailed",
-      value: getProviderName(mostTokens.providerId),
-      detail: `${mostTokens.stats?.tokens.toLocaleString()} tokens`,
-      icon: Hash,
-      color: getProviderColor(mostTokens.providerId),
-    },
+    mostAccurate
+      ? {
+          label: "Most Accurate",
+          value: getProviderName(mostAccurate.providerId),
+          detail: `${(textScore(mostAccurate)!.accuracy * 100).toFixed(1)}% (CER ${(textScore(mostAccurate)!.cer * 100).toFixed(1)}%)`,
+          icon: Target,
+          color: getProviderColor(mostAccurate.providerId),
+        }
+      : {
+          label: "Most Detailed",
+          value: getProviderName(mostTokens.providerId),
+          detail: `${mostTokens.stats?.tokens.toLocaleString()} tokens`,
+          icon: Hash,
+          color: getProviderColor(mostTokens.providerId),
+        },
+    ...(bestLayout
+      ? [
+          {
+            label: "Best Layout",
+            value: getProviderName(bestLayout.providerId),
+            detail: `${(layoutScore(bestLayout)! * 100).toFixed(1)}% mAP`,
+            icon: LayoutGrid,
+            color: getProviderColor(bestLayout.providerId),
+          },
+        ]
+      : []),
   ];
 
   return (
@@ -69,7 +112,7 @@ export function StatsSummary({ results, providers }: StatsSummaryProps) {
       <h3 className="text-sm font-medium text-muted-foreground mb-4 uppercase tracking-wider">
         Benchmark Summary
       </h3>
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+      <div className={cn("grid grid-cols-1 gap-4", stats.length > 3 ? "md:grid-cols-4" : "md:grid-cols-3")}>
         {stats.map((stat) => (
           <div
             key={stat.label}
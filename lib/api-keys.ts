@@ -0,0 +1,75 @@
+import type { ProviderType } from "@/lib/providers";
+
+// Bring-your-own-key: users can enter their own key per service. Keys are kept in the
+// browser (localStorage), sent with each parse request in a dedicated header and take
+// precedence over the deployment's env var. The server never stores them.
+export interface ApiKeyService {
+  providerType: ProviderType;
+  label: string;
+  header: string; // Request header carrying the user's key
+  envVar: string; // Server-side fallback
+  required: boolean; // false: self-hosted services that also run without a key
+}
+
+export const API_KEY_SERVICES: ApiKeyService[] = [
+  {
+    providerType: "ai-gateway",
+    label: "Vercel AI Gateway",
+    header: "X-AI-Gateway-Key",
+    envVar: "AI_GATEWAY_API_KEY",
+    required: true,
+  },
+  {
+    providerType: "llamaparse",
+    label: "LlamaParse",
+    header: "X-LlamaParse-Key",
+    envVar: "LLAMA_PARSE_API_KEY",
+    required: true,
+  },
+  {
+    providerType: "mistral-ocr",
+    label: "Mistral",
+    header: "X-Mistral-Key",
+    envVar: "MISTRAL_API_KEY",
+    required: true,
+  },
+  {
+    providerType: "datalab-marker",
+    label: "Datalab",
+    header: "X-Datalab-Key",
+    envVar: "DATALAB_API_KEY",
+    required: true,
+  },
+  {
+    providerType: "docling",
+    label: "Docling Serve",
+    header: "X-Docling-Key",
+    envVar: "DOCLING_API_KEY",
+    required: false,
+  },
+  {
+    providerType: "unstructured",
+    label: "Unstructured",
+    header: "X-Unstructured-Key",
+    envVar: "UNSTRUCTURED_API_KEY",
+    required: false,
+  },
+  {
+    providerType: "openai-compatible",
+    label: "OpenAI-compatible",
+    header: "X-OpenAI-Compatible-Key",
+    envVar: "OPENAI_COMPATIBLE_API_KEY",
+    required: false,
+  },
+];
+
+export const API_KEYS_STORAGE_KEY = "parsebench:api-keys";
+
+export const MAX_API_KEY_LENGTH = 500;
+
+// Printable ASCII without spaces, so keys are always valid header values
+export const API_KEY_PATTERN = /^[\x21-\x7e]+$/;
+
+export function getApiKeyService(providerType: ProviderType): ApiKeyService | null {
+  return API_KEY_SERVICES.find((service) => service.providerType === providerType) ?? null;
+}
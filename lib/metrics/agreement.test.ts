@@ -0,0 +1,52 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { ParseResult } from "@/lib/types";
+import { computeAgreement } from "./agreement";
+
+function result(providerId: string, content: string, status: ParseResult["status"] = "complete"): ParseResult {
+  return { providerId, status, content };
+}
+
+const TEXT = "Invoice number 42 issued to Acme Corporation for consulting services in March";
+
+describe("computeAgreement", () => {
+  it("needs two completed results", () => {
+    assert.equal(computeAgreement([result("a", TEXT)]), null);
+    assert.equal(computeAgreement([result("a", TEXT), result("b", TEXT, "error")]), null);
+  });
+
+  it("rates identical output 1 after normalization, with no outlier between two", () => {
+    const agreement = computeAgreement([result("a", `# ${TEXT}`), result("b", `**${TEXT}**`)]);
+    assert.deepEqual(agreement, {
+      providerIds: ["a", "b"],
+      similarity: [
+        [null, 1],
+        [1, null],
+      ],
+      meanAgreement: [1, 1],
+      outlier: null,
+    });
+  });
+
+  it("flags the provider that disagrees with the rest", () => {
+    const agreement = computeAgreement([
+      result("a", TEXT),
+      result("b", TEXT.replace("42", "43")),
+      result("c", "Completely different words from a failed recognition"),
+      result("d", TEXT),
+    ]);
+    assert.equal(agreement?.outlier, "c");
+    // One substituted word out of 12
+    assert.equal(agreement?.similarity[0][1], 1 - 1 / 12);
+    assert.equal(agreement?.similarity[0][3], 1);
+  });
+
+  it("does not flag an outlier when everyone roughly agrees", () => {
+    const agreement = computeAgreement([
+      result("a", TEXT),
+      result("b", TEXT.replace("42", "43")),
+      result("c", TEXT.replace("March", "May")),
+    ]);
+    assert.equal(agreement?.outlier, null);
+  });
+});
@@ -0,0 +1,76 @@
+import type { ParseResult } from "@/lib/types";
+import { normalizedWordDistance, normalizeText } from "./text";
+
+// Cross-provider agreement for documents without a reference: pairwise word-level similarity
+// between completed results after normalization. Providers that mostly agree are likely right;
+// the one that disagrees with all the others is likely wrong (or the only one that is right).
+
+export interface AgreementMatrix {
+  providerIds: string[];
+  similarity: (number | null)[][]; // 1 - normalized word edit distance; null on the diagonal or when too long
+  meanAgreement: (number | null)[]; // Mean similarity to every other provider
+  outlier: string | null; // Provider id whose output disagrees most with the rest
+}
+
+// Word edit distance is quadratic and runs for every pair; longer outputs are left out
+export const MAX_AGREEMENT_WORDS = 3_000;
+// Mean agreement this far below the other providers' average flags an outlier
+const OUTLIER_MARGIN = 0.1;
+
+// Finished results keep their object identity while other cards stream, so pairs are computed once
+const similarityCache = new WeakMap<ParseResult, WeakMap<ParseResult, number | null>>();
+
+function toWords(result: ParseResult): string[] {
+  const text = normalizeText(result.content ?? "").toLowerCase();
+  return text ? text.split(" ") : [];
+}
+
+function pairSimilarity(a: ParseResult, b: ParseResult): number | null {
+  const cached = similarityCache.get(a)?.get(b);
+  if (cached !== undefined) return cached;
+
+  const aWords = toWords(a);
+  const bWords = toWords(b);
+  const similarity =
+    aWords.length > MAX_AGREEMENT_WORDS || bWords.length > MAX_AGREEMENT_WORDS
+      ? null
+      : 1 - normalizedWordDistance(aWords, bWords);
+
+  for (const [x, y] of [[a, b], [b, a]]) {
+    let row = similarityCache.get(x);
+    if (!row) similarityCache.set(x, (row = new WeakMap()));
+    row.set(y, similarity);
+  }
+  return similarity;
+}
+
+// Agreement between every pair of completed results; null with fewer than two
+export function computeAgreement(results: ParseResult[]): AgreementMatrix | null {
+  const completed = results.filter((result) => result.status === "complete" && result.content);
+  if (completed.length < 2) return null;
+
+  const similarity = completed.map((a, i) =>
+    completed.map((b, j) => (i === j ? null : pairSimilarity(a, b)))
+  );
+  const meanAgreement = similarity.map((row) => {
+    const values = row.filter((value): value is number => value !== null);
+    return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+  });
+
+  // With two providers there is no majority to disagree with
+  let outlier: string | null = null;
+  const scored = meanAgreement.flatMap((mean, i) => (mean === null ? [] : [{ i, mean }]));
+  if (scored.length >= 3) {
+    const lowest = scored.reduce((prev, curr) => (curr.mean < prev.mean ? curr : prev));
+    const others = scored.filter((entry) => entry !== lowest);
+    const othersMean = others.reduce((sum, entry) => sum + entry.mean, 0) / others.length;
+    if (lowest.mean < othersMean - OUTLIER_MARGIN) outlier = completed[lowest.i].providerId;
+  }
+
+  return {
+    providerIds: completed.map((result) => result.providerId),
+    similarity,
+    meanAgreement,
+    outlier,
+  };
+}
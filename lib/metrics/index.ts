@@ -0,0 +1,44 @@
+import type { ParseResult } from "@/lib/types";
+import { scoreLayout, type LayoutAnnotations, type LayoutScore } from "./layout";
+import { scoreReadingOrder, type ReadingOrderScore } from "./reading-order";
+import { scoreTables, type TableScore } from "./tables";
+import { isReferenceTooLong, scoreText, type TextScore } from "./text";
+
+export { computeAgreement, type AgreementMatrix } from "./agreement";
+export type { BlockTypeScore, LayoutAnnotations, LayoutScore } from "./layout";
+export type { ReadingOrderScore } from "./reading-order";
+export type { TableMatch, TableScore } from "./tables";
+export type { TextScore } from "./text";
+
+// Ground truth for the current document
+export interface ReferenceTranscript {
+  markdown: string; // Expected text as markdown
+  source: "sample" | "user"; // Bundled with a sample, or pasted/loaded by the user
+  tables?: string; // Samples: ground-truth tables as HTML (spans included); user references supply their own tables
+  layout?: LayoutAnnotations; // Ground-truth regions per page
+}
+
+export interface ResultScores {
+  text: TextScore | null;
+  textTooLong: boolean; // Reference exceeds MAX_SCORED_CHARS, so text accuracy is not computed
+  tables: TableScore | null;
+  layout: LayoutScore | null; // Providers that return block bounding boxes only
+  readingOrder: ReadingOrderScore | null;
+}
+
+// Score one completed result against the reference
+export function scoreResult(result: ParseResult, reference: ReferenceTranscript): ResultScores {
+  const content = result.content ?? "";
+  const tableTruth = reference.source === "sample" ? reference.tables : reference.markdown;
+  // HTML output keeps spans that the markdown rendering of the same tables loses
+  const html = result.outputs?.html;
+  const tableOutput = html && /<table\b/i.test(html) ? html : content;
+
+  return {
+    text: scoreText(content, reference.markdown),
+    textTooLong: isReferenceTooLong(reference.markdown),
+    tables: tableTruth ? scoreTables(tableOutput, tableTruth) : null,
+    layout: reference.layout && result.outputs?.json ? scoreLayout(result.outputs.json.blocks, reference.layout) : null,
+    readingOrder: scoreReadingOrder({ markdown: content, blocks: result.outputs?.json?.blocks }, reference.markdown),
+  };
+}
@@ -0,0 +1,66 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { BBox, ParseBlock } from "@/lib/types";
+import { iou, scoreLayout, type LayoutAnnotations } from "./layout";
+
+const TOP: BBox = { x: 0.1, y: 0.1, w: 0.8, h: 0.2 };
+const BOTTOM: BBox = { x: 0.1, y: 0.6, w: 0.8, h: 0.2 };
+
+function block(type: ParseBlock["type"], bbox: BBox, confidence?: number, pageIndex = 0): ParseBlock {
+  return { id: `${type}-${bbox.y}`, type, content: "", bbox, confidence, pageIndex };
+}
+
+const annotations: LayoutAnnotations = {
+  pages: [{ blocks: [{ type: "table", bbox: TOP }, { type: "table", bbox: BOTTOM }] }],
+};
+
+describe("iou", () => {
+  it("is 1 for identical boxes and 0 for disjoint ones", () => {
+    assert.equal(iou(TOP, TOP), 1);
+    assert.equal(iou(TOP, BOTTOM), 0);
+  });
+
+  it("divides the overlap by the union", () => {
+    const left: BBox = { x: 0, y: 0, w: 0.5, h: 0.5 };
+    const shifted: BBox = { x: 0.25, y: 0, w: 0.5, h: 0.5 };
+    // Overlap 0.25 x 0.5, union 2 x 0.25 - 0.125
+    assert.ok(Math.abs(iou(left, shifted) - 1 / 3) < 1e-12);
+  });
+});
+
+describe("scoreLayout", () => {
+  it("gives perfect boxes an AP of 1", () => {
+    const score = scoreLayout([block("table", TOP), block("table", BOTTOM)], annotations);
+    assert.equal(score?.map, 1);
+    assert.equal(score?.mapCoco, 1);
+    assert.deepEqual(score?.types, [{ type: "table", truth: 2, predicted: 2, precision: 1, recall: 1, ap: 1 }]);
+  });
+
+  it("gives disjoint boxes an AP of 0", () => {
+    const elsewhere: BBox = { x: 0.1, y: 0.35, w: 0.8, h: 0.2 };
+    const score = scoreLayout([block("table", elsewhere)], annotations);
+    assert.equal(score?.map, 0);
+    assert.equal(score?.types[0].precision, 0);
+  });
+
+  it("ranks predictions by confidence", () => {
+    const wrong: BBox = { x: 0.1, y: 0.35, w: 0.8, h: 0.2 };
+    // Hit then miss: precision 1 up to recall 0.5, so AP 0.5
+    const confidentHit = scoreLayout([block("table", TOP, 0.9), block("table", wrong, 0.1)], annotations);
+    assert.equal(confidentHit?.map, 0.5);
+    // Miss then hit: precision 0.5 at recall 0.5, so AP 0.25
+    const confidentMiss = scoreLayout([block("table", TOP, 0.1), block("table", wrong, 0.9)], annotations);
+    assert.equal(confidentMiss?.map, 0.25);
+  });
+
+  it("only matches regions of the same type on the same page", () => {
+    const score = scoreLayout([block("figure", TOP), block("table", BOTTOM, undefined, 1)], annotations);
+    assert.equal(score?.map, 0);
+    assert.equal(score?.types.length, 1);
+  });
+
+  it("returns null without boxes to compare", () => {
+    assert.equal(scoreLayout([{ id: "1", type: "table", content: "", pageIndex: 0 }], annotations), null);
+    assert.equal(scoreLayout([block("table", TOP)], { pages: [] }), null);
+  });
+});
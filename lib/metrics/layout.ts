@@ -0,0 +1,148 @@
+import { z } from "zod";
+import { BLOCK_TYPES, type BBox, type ParseBlock } from "@/lib/types";
+
+// Layout detection accuracy: output blocks are matched to ground-truth regions of the same type
+// on the same page by IoU, giving precision, recall and average precision (AP) per block type.
+
+export type BlockType = (typeof BLOCK_TYPES)[number];
+
+// Ground-truth regions per page, in the normalized coordinates ParseBlock uses
+const bboxSchema = z.object({
+  x: z.number().min(0).max(1),
+  y: z.number().min(0).max(1),
+  w: z.number().positive().max(1),
+  h: z.number().positive().max(1),
+});
+
+export const layoutAnnotationsSchema = z.object({
+  pages: z
+    .array(z.object({ blocks: z.array(z.object({ type: z.enum(BLOCK_TYPES), bbox: bboxSchema })).max(1000) }))
+    .max(100),
+});
+
+export type LayoutAnnotations = z.infer<typeof layoutAnnotationsSchema>;
+
+export interface BlockTypeScore {
+  type: BlockType;
+  truth: number; // Ground-truth regions
+  predicted: number; // Output blocks with a bbox
+  precision: number; // At IoU 0.5
+  recall: number;
+  ap: number; // Average precision at IoU 0.5
+}
+
+export interface LayoutScore {
+  map: number; // Mean AP at IoU 0.5 over block types present in the ground truth
+  mapCoco: number; // Mean AP averaged over IoU 0.5:0.05:0.95 (COCO style)
+  types: BlockTypeScore[];
+}
+
+const IOU_THRESHOLD = 0.5;
+const COCO_THRESHOLDS = Array.from({ length: 10 }, (_, i) => 0.5 + i * 0.05);
+
+export function iou(a: BBox, b: BBox): number {
+  const overlapW = Math.min(a.x + a.w, b.x + b.w) - Math.max(a.x, b.x);
+  const overlapH = Math.min(a.y + a.h, b.y + b.h) - Math.max(a.y, b.y);
+  if (overlapW <= 0 || overlapH <= 0) return 0;
+  const intersection = overlapW * overlapH;
+  return intersection / (a.w * a.h + b.w * b.h - intersection);
+}
+
+interface Region {
+  pageIndex: number;
+  bbox: BBox;
+}
+
+// Greedy matching in confidence order (output order when providers give none), as in
+// PASCAL VOC and COCO: each prediction takes the best unmatched region above the threshold
+function matchRegions(predictions: (Region & { confidence: number })[], truth: Region[], threshold: number): boolean[] {
+  const order = predictions.map((_, i) => i).sort((a, b) => predictions[b].confidence - predictions[a].confidence);
+  const matched = new Set<number>();
+  const hits = new Array<boolean>(predictions.length).fill(false);
+  for (const p of order) {
+    let best = -1;
+    let bestIou = threshold;
+    truth.forEach((region, t) => {
+      if (matched.has(t) || region.pageIndex !== predictions[p].pageIndex) return;
+      const overlap = iou(predictions[p].bbox, region.bbox);
+      if (overlap >= bestIou) {
+        best = t;
+        bestIou = overlap;
+      }
+    });
+    if (best !== -1) {
+      matched.add(best);
+      hits[p] = true;
+    }
+  }
+  return order.map((p) => hits[p]);
+}
+
+// Area under the precision-recall curve with all-point interpolation; hits are in rank order
+function averagePrecision(hits: boolean[], truthCount: number): number {
+  if (truthCount === 0) return 0;
+  const precisions: number[] = [];
+  const recalls: number[] = [];
+  let truePositives = 0;
+  hits.forEach((hit, i) => {
+    if (hit) truePositives++;
+    precisions.push(truePositives / (i + 1));
+    recalls.push(truePositives / truthCount);
+  });
+  // Precision envelope: best precision at this recall or higher
+  for (let i = precisions.length - 2; i >= 0; i--) {
+    precisions[i] = Math.max(precisions[i], precisions[i + 1]);
+  }
+  let ap = 0;
+  let previousRecall = 0;
+  recalls.forEach((recall, i) => {
+    ap += (recall - previousRecall) * precisions[i];
+    previousRecall = recall;
+  });
+  return ap;
+}
+
+// Score output blocks against the annotations; null when nothing can be compared
+export function scoreLayout(blocks: ParseBlock[], annotations: LayoutAnnotations): LayoutScore | null {
+  const truth = annotations.pages.flatMap((page, pageIndex) =>
+    page.blocks.map((block) => ({ ...block, pageIndex }))
+  );
+  const predictions = blocks.filter(
+    (block): block is ParseBlock & { bbox: BBox } => !!block.bbox && block.type !== "unknown"
+  );
+  if (truth.length === 0 || predictions.length === 0) return null;
+
+  const types = BLOCK_TYPES.filter((type) => truth.some((region) => region.type === type));
+  const apCoco: number[] = [];
+  const scores = types.map((type): BlockTypeScore => {
+    const typeTruth = truth.filter((region) => region.type === type);
+    const typePredictions = predictions
+      .filter((block) => block.type === type)
+      .map((block) => ({ pageIndex: block.pageIndex, bbox: block.bbox, confidence: block.confidence ?? 1 }));
+
+    const hits = matchRegions(typePredictions, typeTruth, IOU_THRESHOLD);
+    const truePositives = hits.filter(Boolean).length;
+    apCoco.push(
+      COCO_THRESHOLDS.reduce(
+        (sum, threshold) => sum + averagePrecision(matchRegions(typePredictions, typeTruth, threshold), typeTruth.length),
+        0
+      ) / COCO_THRESHOLDS.length
+    );
+
+    return {
+      type,
+      truth: typeTruth.length,
+      predicted: typePredictions.length,
+      precision: typePredictions.length > 0 ? truePositives / typePredictions.length : 0,
+      recall: truePositives / typeTruth.length,
+      ap: averagePrecision(hits, typeTruth.length),
+    };
+  });
+
+  const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+  return {
+    map: mean(scores.map((score) => score.ap)),
+    mapCoco: mean(apCoco),
+    types: scores,
+  };
+}
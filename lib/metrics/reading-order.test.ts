@@ -0,0 +1,64 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { scoreReadingOrder, splitSegments } from "./reading-order";
+
+const PARAGRAPHS = [
+  "The quarterly report covers revenue",
+  "Operating costs rose by four percent",
+  "Net income was flat year over year",
+  "The board approved a new dividend",
+];
+const REFERENCE = PARAGRAPHS.join("\n\n");
+
+describe("splitSegments", () => {
+  it("splits lines, HTML rows and paragraphs into normalized segments", () => {
+    assert.deepEqual(splitSegments("# Title\n\n- One item\n<table><tr><td>A</td></tr><tr><td>B</td></tr></table>"), [
+      "title",
+      "one item",
+      "a",
+      "b",
+    ]);
+  });
+});
+
+describe("scoreReadingOrder", () => {
+  it("is 1 in reference order and -1 reversed", () => {
+    assert.deepEqual(scoreReadingOrder({ markdown: REFERENCE }, REFERENCE), {
+      tau: 1,
+      agreement: 1,
+      aligned: 4,
+      segments: 4,
+    });
+    assert.equal(scoreReadingOrder({ markdown: [...PARAGRAPHS].reverse().join("\n\n") }, REFERENCE)?.tau, -1);
+  });
+
+  it("counts discordant pairs", () => {
+    // One adjacent swap: 1 of 6 pairs out of order
+    const swapped = [PARAGRAPHS[1], PARAGRAPHS[0], PARAGRAPHS[2], PARAGRAPHS[3]].join("\n");
+    const score = scoreReadingOrder({ markdown: swapped }, REFERENCE);
+    assert.equal(score?.tau, (5 - 1) / 6);
+    assert.equal(score?.agreement, 5 / 6);
+  });
+
+  it("uses blocks in emitted order over markdown", () => {
+    const blocks = [PARAGRAPHS[3], PARAGRAPHS[2], PARAGRAPHS[1], PARAGRAPHS[0]].map((content, i) => ({
+      id: String(i),
+      type: "text" as const,
+      content,
+      pageIndex: 0,
+    }));
+    assert.equal(scoreReadingOrder({ markdown: REFERENCE, blocks }, REFERENCE)?.tau, -1);
+  });
+
+  it("ignores short and unmatched segments", () => {
+    const output = ["Page 1", PARAGRAPHS[0], "Something the reference never says at all", PARAGRAPHS[1]].join("\n");
+    const score = scoreReadingOrder({ markdown: output }, REFERENCE);
+    assert.equal(score?.segments, 3);
+    assert.equal(score?.aligned, 2);
+    assert.equal(score?.tau, 1);
+  });
+
+  it("returns null with fewer than two aligned segments", () => {
+    assert.equal(scoreReadingOrder({ markdown: PARAGRAPHS[0] }, REFERENCE), null);
+  });
+});
@@ -0,0 +1,87 @@
+import type { ParseBlock } from "@/lib/types";
+import { normalizeText } from "./text";
+
+// Reading-order agreement: each text segment a provider emitted (block or markdown line) is
+// aligned to the reference segment it shares most words with, and the order of the aligned
+// reference positions is compared with the reference order by Kendall's tau. Multi-column
+// pages read across columns score low even when every word is right.
+
+export interface ReadingOrderScore {
+  tau: number; // Kendall's tau, -1 (reversed) to 1 (same order)
+  agreement: number; // Normalized tau: share of segment pairs in reference order (0..1)
+  aligned: number; // Output segments matched to a reference segment
+  segments: number; // Output segments long enough to align
+}
+
+// Segments shorter than this (page numbers, lone labels) match too many places to be evidence
+const MIN_SEGMENT_WORDS = 3;
+// Share of a segment's words that must occur in the reference segment it is aligned to
+const MIN_OVERLAP = 0.6;
+
+// Paragraphs, list items and table rows: one per line after HTML rows and paragraphs are broken out
+export function splitSegments(markdown: string): string[] {
+  return markdown
+    .replace(/<\/(tr|p|li|h[1-6]|div)>|<br\s*\/?>/gi, "\n")
+    .split("\n")
+    .map((line) => normalizeText(line).toLowerCase())
+    .filter((line) => line.length > 0);
+}
+
+function countWords(segment: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const word of segment.split(" ")) counts.set(word, (counts.get(word) ?? 0) + 1);
+  return counts;
+}
+
+// Index of the reference segment sharing most of this segment's words, or -1
+function alignSegment(words: Map<string, number>, wordCount: number, reference: Map<string, number>[]): number {
+  let best = -1;
+  let bestOverlap = MIN_OVERLAP * wordCount;
+  reference.forEach((referenceWords, index) => {
+    let overlap = 0;
+    for (const [word, count] of words) overlap += Math.min(count, referenceWords.get(word) ?? 0);
+    if (overlap > bestOverlap) {
+      best = index;
+      bestOverlap = overlap;
+    }
+  });
+  return best;
+}
+
+// Output order as emitted: blocks when the provider returns them, markdown lines otherwise
+export function scoreReadingOrder(
+  output: { markdown: string; blocks?: ParseBlock[] },
+  reference: string
+): ReadingOrderScore | null {
+  const referenceWords = splitSegments(reference).map(countWords);
+  const text = output.blocks?.length ? output.blocks.map((block) => block.content).join("\n") : output.markdown;
+
+  const positions: number[] = [];
+  let segments = 0;
+  for (const segment of splitSegments(text)) {
+    const wordCount = segment.split(" ").length;
+    if (wordCount < MIN_SEGMENT_WORDS) continue;
+    segments++;
+    const position = alignSegment(countWords(segment), wordCount, referenceWords);
+    if (position !== -1) positions.push(position);
+  }
+
+  // Pairs aligned to the same reference segment (a paragraph split in two) say nothing about order
+  let concordant = 0;
+  let discordant = 0;
+  for (let i = 0; i < positions.length; i++) {
+    for (let j = i + 1; j < positions.length; j++) {
+      if (positions[i] < positions[j]) concordant++;
+      else if (positions[i] > positions[j]) discordant++;
+    }
+  }
+  const pairs = concordant + discordant;
+  if (pairs === 0) return null;
+
+  return {
+    tau: (concordant - discordant) / pairs,
+    agreement: concordant / pairs,
+    aligned: positions.length,
+    segments,
+  };
+}
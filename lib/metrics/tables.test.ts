@@ -0,0 +1,91 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { computeTeds, extractTables, scoreTables } from "./tables";
+
+const TWO_BY_TWO = "| a | b |\n|---|---|\n| c | d |";
+
+function onlyTable(text: string) {
+  const tables = extractTables(text);
+  assert.equal(tables.length, 1);
+  return tables[0];
+}
+
+describe("extractTables", () => {
+  it("reads markdown pipe tables", () => {
+    const table = onlyTable(`Intro\n\n${TWO_BY_TWO}\n\nOutro`);
+    assert.equal(table.rowCount, 2);
+    assert.equal(table.columnCount, 2);
+    assert.deepEqual(
+      table.rows.map((cells) => cells.map((cell) => cell.text)),
+      [["a", "b"], ["c", "d"]]
+    );
+    assert.equal(table.rows[0][0].header, true);
+  });
+
+  it("resolves HTML row and column spans", () => {
+    const table = onlyTable(
+      '<table><tr><th colspan="2">Total</th><td rowspan=2>x</td></tr><tr><td>a</td><td>b</td></tr></table>'
+    );
+    assert.equal(table.rowCount, 2);
+    assert.equal(table.columnCount, 3);
+    assert.equal(table.rows[0][0].colspan, 2);
+    assert.equal(table.rows[0][1].rowspan, 2);
+  });
+
+  it("keeps HTML and markdown tables in document order", () => {
+    const tables = extractTables(`${TWO_BY_TWO}\n\n<table><tr><td>only</td></tr></table>\n\n| e |\n|---|`);
+    assert.deepEqual(
+      tables.map((table) => table.rows[0][0].text),
+      ["a", "only", "e"]
+    );
+  });
+});
+
+describe("computeTeds", () => {
+  // Trees are table > tr > td: a 2x2 table has 1 + 2 + 4 = 7 nodes
+  it("is 1 for identical tables", () => {
+    const table = onlyTable(TWO_BY_TWO);
+    assert.equal(computeTeds(table, table), 1);
+  });
+
+  it("charges one edit for a missing cell", () => {
+    const truth = onlyTable(TWO_BY_TWO);
+    const output = onlyTable("| a | b |\n|---|---|\n| c |");
+    assert.equal(computeTeds(output, truth), 1 - 1 / 7);
+    assert.equal(computeTeds(output, truth, false), 1 - 1 / 7);
+  });
+
+  it("charges the normalized edit distance for wrong cell text", () => {
+    const truth = onlyTable("| abc | b |\n|---|---|\n| c | d |");
+    const output = onlyTable("| abd | b |\n|---|---|\n| c | d |");
+    assert.ok(Math.abs(computeTeds(output, truth) - (1 - 1 / 3 / 7)) < 1e-12);
+    assert.equal(computeTeds(output, truth, false), 1);
+  });
+
+  it("treats a different span as a relabelled cell", () => {
+    const truth = onlyTable('<table><tr><td colspan="2">a</td></tr><tr><td>b</td><td>c</td></tr></table>');
+    const output = onlyTable("<table><tr><td>a</td></tr><tr><td>b</td><td>c</td></tr></table>");
+    // 6 nodes each; renaming the spanning cell costs 1
+    assert.equal(computeTeds(output, truth, false), 1 - 1 / 6);
+  });
+});
+
+describe("scoreTables", () => {
+  it("returns null when the ground truth has no tables", () => {
+    assert.equal(scoreTables(TWO_BY_TWO, "No tables here"), null);
+  });
+
+  it("scores missed tables as 0", () => {
+    const score = scoreTables("Just text", TWO_BY_TWO);
+    assert.equal(score?.teds, 0);
+    assert.equal(score?.outputTables, 0);
+    assert.equal(score?.tables[0].matchedIndex, null);
+  });
+
+  it("pairs each ground-truth table with its best output table", () => {
+    const other = "| x | y | z |\n|---|---|---|\n| 1 | 2 | 3 |";
+    const score = scoreTables(`${other}\n\n${TWO_BY_TWO}`, TWO_BY_TWO);
+    assert.equal(score?.tables[0].matchedIndex, 1);
+    assert.equal(score?.teds, 1);
+  });
+});
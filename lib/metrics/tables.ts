@@ -0,0 +1,291 @@
+import { normalizedEditDistance, normalizeText } from "./text";
+
+// Table structure accuracy: every table in a provider's output (HTML from Mistral and Marker,
+// markdown pipes from LlamaParse and vision LLMs) is parsed into one grid model and compared
+// with ground-truth tables by TEDS, tree-edit-distance similarity over table > row > cell trees
+// (Zhong et al., "Image-based table recognition", 2020).
+
+export interface TableCell {
+  text: string; // Normalized cell text
+  rowspan: number;
+  colspan: number;
+  header: boolean;
+}
+
+export interface ParsedTable {
+  rows: TableCell[][]; // Cells as authored, spanning cells appear once
+  rowCount: number; // Grid size after resolving spans
+  columnCount: number;
+}
+
+export interface TableMatch {
+  rowCount: number; // Ground-truth table size
+  columnCount: number;
+  matchedIndex: number | null; // Index of the output table it was paired with
+  teds: number; // 0..1; 0 when the table was not found
+  structure: number; // TEDS ignoring cell text (TEDS-Struct)
+}
+
+export interface TableScore {
+  teds: number; // Mean over ground-truth tables, so missed tables count as 0
+  structure: number;
+  tables: TableMatch[]; // One per ground-truth table, in document order
+  outputTables: number; // Tables found in the output
+}
+
+// Every cell is compared with every other; giant tables are skipped rather than freezing the page
+const MAX_TABLE_CELLS = 500;
+
+function parseSpan(attributes: string, name: "rowspan" | "colspan"): number {
+  const match = attributes.match(new RegExp(`${name}\\s*=\\s*["']?(\\d+)`, "i"));
+  const span = match ? parseInt(match[1], 10) : 1;
+  return span >= 1 ? Math.min(span, 1000) : 1;
+}
+
+function parseHtmlTable(html: string): TableCell[][] {
+  const rows: TableCell[][] = [];
+  for (const [, rowHtml] of html.matchAll(/<tr\b[^>]*>([\s\S]*?)(?=<tr\b|<\/table>|$)/gi)) {
+    const cells: TableCell[] = [];
+    for (const [, tag, attributes, content] of rowHtml.matchAll(
+      /<(t[dh])\b([^>]*)>([\s\S]*?)(?=<t[dh]\b|<\/tr>|$)/gi
+    )) {
+      cells.push({
+        text: normalizeText(content.replace(/<\/t[dh]>\s*$/i, "")),
+        rowspan: parseSpan(attributes, "rowspan"),
+        colspan: parseSpan(attributes, "colspan"),
+        header: tag.toLowerCase() === "th",
+      });
+    }
+    if (cells.length > 0) rows.push(cells);
+  }
+  return rows;
+}
+
+function splitMarkdownRow(line: string): string[] {
+  const trimmed = line.trim().replace(/^\|/, "").replace(/(?<!\\)\|$/, "");
+  return trimmed.split(/(?<!\\)\|/).map((cell) => cell.replace(/\\\|/g, "|"));
+}
+
+const MARKDOWN_DELIMITER_ROW = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+// Pipe tables: a header row, a delimiter row, then body rows containing pipes
+function findMarkdownTables(text: string): { index: number; rows: TableCell[][] }[] {
+  const tables: { index: number; rows: TableCell[][] }[] = [];
+  const lines = text.split("\n");
+  let offset = 0;
+  const offsets = lines.map((line) => {
+    const start = offset;
+    offset += line.length + 1;
+    return start;
+  });
+
+  for (let i = 0; i + 1 < lines.length; i++) {
+    if (!lines[i].includes("|") || !MARKDOWN_DELIMITER_ROW.test(lines[i + 1]) || !lines[i + 1].includes("-")) {
+      continue;
+    }
+    const toCells = (line: string, header: boolean): TableCell[] =>
+      splitMarkdownRow(line).map((cell) => ({ text: normalizeText(cell), rowspan: 1, colspan: 1, header }));
+    const rows = [toCells(lines[i], true)];
+    let end = i + 2;
+    while (end < lines.length && lines[end].includes("|") && lines[end].trim() !== "") {
+      rows.push(toCells(lines[end], false));
+      end++;
+    }
+    tables.push({ index: offsets[i], rows });
+    i = end - 1;
+  }
+  return tables;
+}
+
+// Resolve spans on an occupancy grid to get the table's real size
+function measureGrid(rows: TableCell[][]): { rowCount: number; columnCount: number } {
+  const occupied: boolean[][] = [];
+  let columnCount = 0;
+  rows.forEach((cells, r) => {
+    let column = 0;
+    for (const cell of cells) {
+      while (occupied[r]?.[column]) column++;
+      for (let dr = 0; dr < cell.rowspan; dr++) {
+        for (let dc = 0; dc < cell.colspan; dc++) {
+          (occupied[r + dr] ??= [])[column + dc] = true;
+        }
+      }
+      column += cell.colspan;
+      columnCount = Math.max(columnCount, column);
+    }
+  });
+  return { rowCount: Math.max(rows.length, occupied.length), columnCount };
+}
+
+// All tables in markdown or HTML output, in document order
+export function extractTables(text: string): ParsedTable[] {
+  const found: { index: number; rows: TableCell[][] }[] = [];
+  // HTML tables are cut out first so their pipes or dashes are not read as markdown
+  const withoutHtml = text.replace(/<table\b[\s\S]*?<\/table>/gi, (html, index: number) => {
+    found.push({ index, rows: parseHtmlTable(html) });
+    return " ".repeat(html.length);
+  });
+  found.push(...findMarkdownTables(withoutHtml));
+
+  return found
+    .filter((table) => table.rows.length > 0)
+    .sort((a, b) => a.index - b.index)
+    .map(({ rows }) => ({ rows, ...measureGrid(rows) }));
+}
+
+interface TreeNode {
+  label: string; // "table", "tr", or "td" with its spans
+  text: string | null; // Cells only
+  children: TreeNode[];
+}
+
+// Header cells count as plain cells: providers disagree on <th> far more than on structure
+function toTree(table: ParsedTable): TreeNode {
+  return {
+    label: "table",
+    text: null,
+    children: table.rows.map((cells) => ({
+      label: "tr",
+      text: null,
+      children: cells.map((cell) => ({
+        label: `td ${cell.rowspan}x${cell.colspan}`,
+        text: cell.text,
+        children: [],
+      })),
+    })),
+  };
+}
+
+interface PostorderTree {
+  nodes: TreeNode[];
+  leftmost: number[]; // Postorder index of each node's leftmost leaf
+  keyroots: number[];
+}
+
+function postorder(root: TreeNode): PostorderTree {
+  const nodes: TreeNode[] = [];
+  const leftmost: number[] = [];
+  const visit = (node: TreeNode): number => {
+    let first = -1;
+    for (const child of node.children) {
+      const childLeftmost = visit(child);
+      if (first === -1) first = childLeftmost;
+    }
+    nodes.push(node);
+    const index = nodes.length - 1;
+    leftmost.push(first === -1 ? index : first);
+    return leftmost[index];
+  };
+  visit(root);
+
+  // Keyroots: the root plus every node that has a left sibling (highest node per leftmost leaf)
+  const seen = new Set<number>();
+  const keyroots: number[] = [];
+  for (let i = nodes.length - 1; i >= 0; i--) {
+    if (!seen.has(leftmost[i])) {
+      seen.add(leftmost[i]);
+      keyroots.push(i);
+    }
+  }
+  return { nodes, leftmost, keyroots: keyroots.reverse() };
+}
+
+// Zhang-Shasha tree edit distance with unit insert/delete. Renaming a cell into a cell with
+// the same spans costs the normalized edit distance of their text (0 when text is ignored).
+function treeEditDistance(a: PostorderTree, b: PostorderTree, compareText: boolean): number {
+  const n = a.nodes.length;
+  const m = b.nodes.length;
+
+  // The same node pair is renamed in many subproblems; text distances are computed once
+  const renameCosts = new Float64Array(n * m).fill(-1);
+  const rename = (i: number, j: number): number => {
+    const cached = renameCosts[i * m + j];
+    if (cached >= 0) return cached;
+    const x = a.nodes[i];
+    const y = b.nodes[j];
+    let cost = 0;
+    if (x.label !== y.label) cost = 1;
+    else if (compareText && x.text !== null && y.text !== null) cost = normalizedEditDistance(x.text, y.text);
+    renameCosts[i * m + j] = cost;
+    return cost;
+  };
+
+  const treeDistance = Array.from({ length: n }, () => new Float64Array(m));
+  const forest = Array.from({ length: n + 1 }, () => new Float64Array(m + 1));
+
+  for (const i of a.keyroots) {
+    for (const j of b.keyroots) {
+      const li = a.leftmost[i];
+      const lj = b.leftmost[j];
+      forest[0][0] = 0;
+      for (let x = 1; x <= i - li + 1; x++) forest[x][0] = forest[x - 1][0] + 1;
+      for (let y = 1; y <= j - lj + 1; y++) forest[0][y] = forest[0][y - 1] + 1;
+
+      for (let x = 1; x <= i - li + 1; x++) {
+        for (let y = 1; y <= j - lj + 1; y++) {
+          const nodeA = li + x - 1;
+          const nodeB = lj + y - 1;
+          const remove = forest[x - 1][y] + 1;
+          const insert = forest[x][y - 1] + 1;
+          if (a.leftmost[nodeA] === li && b.leftmost[nodeB] === lj) {
+            const cost = Math.min(remove, insert, forest[x - 1][y - 1] + rename(nodeA, nodeB));
+            forest[x][y] = cost;
+            treeDistance[nodeA][nodeB] = cost;
+          } else {
+            const before = forest[a.leftmost[nodeA] - li][b.leftmost[nodeB] - lj];
+            forest[x][y] = Math.min(remove, insert, before + treeDistance[nodeA][nodeB]);
+          }
+        }
+      }
+    }
+  }
+  return treeDistance[n - 1][m - 1];
+}
+
+function cellCount(table: ParsedTable): number {
+  return table.rows.reduce((sum, cells) => sum + cells.length, 0);
+}
+
+// TEDS = 1 - TED / max(|T1|, |T2|)
+export function computeTeds(output: ParsedTable, truth: ParsedTable, compareText = true): number {
+  const a = postorder(toTree(output));
+  const b = postorder(toTree(truth));
+  const size = Math.max(a.nodes.length, b.nodes.length);
+  return Math.max(0, 1 - treeEditDistance(a, b, compareText) / size);
+}
+
+// Pair each ground-truth table with the most similar output table (each used once) and score it
+export function scoreTables(output: string, truth: string): TableScore | null {
+  const truthTables = extractTables(truth).filter((table) => cellCount(table) <= MAX_TABLE_CELLS);
+  if (truthTables.length === 0) return null;
+  const outputTables = extractTables(output).filter((table) => cellCount(table) <= MAX_TABLE_CELLS);
+
+  const pairs = truthTables.flatMap((truthTable, t) =>
+    outputTables.map((outputTable, o) => ({ t, o, teds: computeTeds(outputTable, truthTable) }))
+  );
+  pairs.sort((x, y) => y.teds - x.teds);
+
+  const matches: TableMatch[] = truthTables.map((table) => ({
+    rowCount: table.rowCount,
+    columnCount: table.columnCount,
+    matchedIndex: null,
+    teds: 0,
+    structure: 0,
+  }));
+  const usedOutputs = new Set<number>();
+  for (const { t, o, teds } of pairs) {
+    if (matches[t].matchedIndex !== null || usedOutputs.has(o)) continue;
+    usedOutputs.add(o);
+    matches[t].matchedIndex = o;
+    matches[t].teds = teds;
+    matches[t].structure = computeTeds(outputTables[o], truthTables[t], false);
+  }
+
+  const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+  return {
+    teds: mean(matches.map((match) => match.teds)),
+    structure: mean(matches.map((match) => match.structure)),
+    tables: matches,
+    outputTables: outputTables.length,
+  };
+}
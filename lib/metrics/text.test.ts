@@ -0,0 +1,116 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { isReferenceTooLong, normalizedEditDistance, normalizedWordDistance, normalizeText, scoreText } from "./text";
+
+// Textbook O(n·m) Levenshtein to check the bit-parallel implementation against
+function naiveDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1), previous[j] + 1, current[j - 1] + 1);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// Deterministic pseudo-random strings (mulberry32)
+function randomStrings(seed: number, count: number, alphabet: string, maxLength: number): string[] {
+  let state = seed;
+  const next = () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  return Array.from({ length: count }, () =>
+    Array.from({ length: Math.floor(next() * maxLength) }, () => alphabet[Math.floor(next() * alphabet.length)]).join("")
+  );
+}
+
+describe("normalizeText", () => {
+  it("strips markup and unifies typography", () => {
+    assert.equal(normalizeText("## **Total**  due:\n\n| A | B |\n|---|---|\n| 1 | 2 |"), "Total due: A B 1 2");
+    assert.equal(normalizeText("<p>Fish &amp; chips</p> — “quoted”"), "Fish & chips - \"quoted\"");
+    assert.equal(normalizeText("[label](https://example.com)"), "label");
+  });
+});
+
+describe("normalizedEditDistance", () => {
+  it("is 0 for identical and empty strings", () => {
+    assert.equal(normalizedEditDistance("", ""), 0);
+    assert.equal(normalizedEditDistance("same", "same"), 0);
+  });
+
+  it("is 1 against an empty string", () => {
+    assert.equal(normalizedEditDistance("abc", ""), 1);
+    assert.equal(normalizedEditDistance("", "abc"), 1);
+  });
+
+  it("scales by the longer string", () => {
+    assert.equal(normalizedEditDistance("kitten", "sitting"), 3 / 7);
+    assert.equal(normalizedEditDistance("flaw", "lawn"), 2 / 4);
+  });
+
+  it("matches the textbook algorithm across block boundaries", () => {
+    // Lengths up to 150 span several 32-symbol blocks, small alphabets force many matches
+    for (const [seed, alphabet] of [[1, "ab"], [2, "abcdefghij"], [3, "aé€ "]] as const) {
+      const strings = randomStrings(seed, 60, alphabet, 150);
+      for (let i = 0; i + 1 < strings.length; i += 2) {
+        const [a, b] = [strings[i], strings[i + 1]];
+        const expected = naiveDistance(a, b) / Math.max(a.length, b.length, 1);
+        assert.equal(normalizedEditDistance(a, b), expected, `"${a}" vs "${b}"`);
+      }
+    }
+  });
+
+  it("counts astral characters once", () => {
+    assert.equal(normalizedEditDistance("𝄞", "a"), 1);
+    assert.equal(normalizedEditDistance("a𝄞b", "ab"), 1 / 3);
+  });
+});
+
+describe("normalizedWordDistance", () => {
+  it("compares whole words", () => {
+    assert.equal(normalizedWordDistance([], []), 0);
+    assert.equal(normalizedWordDistance(["the", "cat", "sat"], ["the", "cat", "sat"]), 0);
+    assert.equal(normalizedWordDistance(["the", "cat", "sat"], ["the", "dog", "sat", "down"]), 2 / 4);
+  });
+});
+
+describe("scoreText", () => {
+  it("scores a perfect transcript as 0 CER and WER", () => {
+    const score = scoreText("# Invoice\n\nTotal: **$10**", "Invoice\nTotal: $10");
+    assert.deepEqual(score, { cer: 0, wer: 0, accuracy: 1, referenceChars: 18, referenceWords: 3, truncated: false });
+  });
+
+  it("counts character and word errors against the reference", () => {
+    const score = scoreText("hello word", "hello world");
+    assert.equal(score?.cer, 1 / 11);
+    assert.equal(score?.wer, 1 / 2);
+  });
+
+  it("scores empty output as all deletions", () => {
+    assert.deepEqual(scoreText("", "abc"), { cer: 1, wer: 1, accuracy: 0, referenceChars: 3, referenceWords: 1, truncated: false });
+  });
+
+  it("skips an empty reference", () => {
+    assert.equal(scoreText("anything", "  "), null);
+  });
+
+  it("scores runaway output past the alignment cap as insertions", () => {
+    const score = scoreText("hello world" + " x".repeat(15_000), "hello world");
+    assert.equal(score?.truncated, true);
+    assert.equal(score?.cer, 30_000 / 11);
+    assert.equal(score?.wer, 15_000 / 2);
+    assert.equal(score?.accuracy, 0);
+  });
+
+  it("skips a reference over the length cap, whatever the output", () => {
+    const reference = "a ".repeat(6_000);
+    assert.equal(isReferenceTooLong(reference), true);
+    assert.equal(scoreText(reference, reference), null);
+    assert.equal(isReferenceTooLong("hello world"), false);
+  });
+});
@@ -0,0 +1,195 @@
+// Text accuracy against a reference transcript: character and word error rates (CER/WER)
+// computed on normalized plain text, so markup differences (markdown vs HTML tables,
+// heading levels, bold) are not counted as recognition errors.
+
+export interface TextScore {
+  cer: number; // Character edits / reference characters; can exceed 1 when output is mostly wrong
+  wer: number; // Word edits / reference words
+  accuracy: number; // 1 - CER, clamped to [0, 1]
+  referenceChars: number;
+  referenceWords: number;
+  truncated: boolean; // Output beyond MAX_COMPARED_OUTPUT_CHARS was counted as insertions: CER/WER are upper bounds
+}
+
+// Edit distance is still quadratic (in 32-cell steps); longer references are not scored rather than freezing the page
+export const MAX_SCORED_CHARS = 10_000;
+// Runaway output is still scored: only this much is aligned and the rest counts as inserted. Past twice the
+// longest reference the true CER is at least 1 anyway, so the upper bound this gives still ranks it last.
+const MAX_COMPARED_OUTPUT_CHARS = 2 * MAX_SCORED_CHARS;
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+};
+
+// Reduce markdown or HTML output to its visible text, with typography and whitespace unified
+export function normalizeText(markdown: string): string {
+  return (
+    markdown
+      .normalize("NFKC")
+      // HTML (tables from Mistral and Marker, <sup>, <br>) becomes plain text
+      .replace(/<[^>]*>/g, " ")
+      .replace(/&(#\d+|#x[\da-f]+|[a-z]+);/gi, (entity, name: string) => {
+        if (name[0] === "#") {
+          const code = name[1].toLowerCase() === "x" ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+          return Number.isFinite(code) ? String.fromCodePoint(code) : entity;
+        }
+        return HTML_ENTITIES[name.toLowerCase()] ?? entity;
+      })
+      // Images keep their alt text, links their label
+      .replace(/!?\[([^\]]*)\]\([^)]*\)/g, "$1")
+      // Table delimiter rows and horizontal rules (also the page separators between pages)
+      .replace(/^\s*\|?(\s*:?-{3,}:?\s*\|)+\s*:?-*:?\s*\|?\s*$/gm, " ")
+      .replace(/^\s*([-*_])(\s*\1){2,}\s*$/gm, " ")
+      // Block markers: headings, quotes, list bullets and numbers
+      .replace(/^\s*#{1,6}\s+/gm, "")
+      .replace(/^\s*>\s?/gm, "")
+      .replace(/^\s*(?:[-*+•]|\d+[.)])\s+/gm, "")
+      // Inline markup: table pipes, emphasis and code spans
+      .replace(/\|/g, " ")
+      .replace(/\*\*|__|[*`]/g, "")
+      .replace(/[‘’‚‛′]/g, "'")
+      .replace(/[“”„‟″]/g, '"')
+      .replace(/[‐‑‒–—―−]/g, "-")
+      .replace(/…/g, "...")
+      .replace(/\s+/g, " ")
+      .trim()
+  );
+}
+
+// Levenshtein distance between two sequences of symbol ids with Myers' bit-parallel algorithm
+// (Hyyrö's block form): 32 cells of a DP column are updated per step, so a 10k x 10k
+// comparison takes ~3M steps instead of 1e8 cell updates
+function editDistance(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  // The shorter sequence is the pattern, split into 32-symbol blocks down the DP column
+  if (a.length < b.length) [a, b] = [b, a];
+  const m = b.length;
+  if (m === 0) return a.length;
+
+  const blockCount = Math.ceil(m / 32);
+  // Bit i of block k: pattern symbol k * 32 + i equals the key
+  const matches = new Map<number, Int32Array>();
+  for (let i = 0; i < m; i++) {
+    let bits = matches.get(b[i]);
+    if (!bits) matches.set(b[i], (bits = new Int32Array(blockCount)));
+    bits[i >> 5] |= 1 << (i & 31);
+  }
+  const noMatches = new Int32Array(blockCount);
+
+  // Vertical deltas of the current column: +1 (positive) / -1 (negative) per cell, 0 otherwise
+  const positive = new Int32Array(blockCount).fill(-1);
+  const negative = new Int32Array(blockCount);
+  const lastBit = 1 << ((m - 1) & 31);
+  let distance = m;
+
+  for (let j = 0; j < a.length; j++) {
+    const eqBlocks = matches.get(a[j]) ?? noMatches;
+    // The first row is 0, 1, 2, ...: every column starts one higher than the last
+    let carry = 1;
+    for (let k = 0; k < blockCount; k++) {
+      const pv = positive[k];
+      const mv = negative[k];
+      let eq = eqBlocks[k];
+      const xv = eq | mv;
+      if (carry < 0) eq |= 1;
+      const xh = ((((eq & pv) + pv) | 0) ^ pv) | eq;
+      let ph = mv | ~(xh | pv);
+      let mh = pv & xh;
+
+      const highBit = k === blockCount - 1 ? lastBit : 1 << 31;
+      const carryOut = ph & highBit ? 1 : mh & highBit ? -1 : 0;
+      ph <<= 1;
+      mh <<= 1;
+      if (carry < 0) mh |= 1;
+      else if (carry > 0) ph |= 1;
+      positive[k] = mh | ~(xv | ph);
+      negative[k] = ph & xv;
+      carry = carryOut;
+    }
+    // Bottom cell of the column: the distance between a[0..j] and all of b
+    distance += carry;
+  }
+  return distance;
+}
+
+const SPACE = 0x20;
+
+function toCodePoints(text: string): number[] {
+  return Array.from(text, (char) => char.codePointAt(0)!);
+}
+
+// Edit distance scaled to [0, 1] by the longer string (0: identical)
+export function normalizedEditDistance(a: string, b: string): number {
+  if (a === b) return 0;
+  const aChars = toCodePoints(a);
+  const bChars = toCodePoints(b);
+  const length = Math.max(aChars.length, bChars.length);
+  return length === 0 ? 0 : editDistance(aChars, bChars) / length;
+}
+
+// Map each distinct word to a number so words compare as single symbols
+function toWordIds(words: string[], vocabulary: Map<string, number>): number[] {
+  return words.map((word) => {
+    let id = vocabulary.get(word);
+    if (id === undefined) {
+      id = vocabulary.size;
+      vocabulary.set(word, id);
+    }
+    return id;
+  });
+}
+
+// Word edit distance scaled to [0, 1] by the longer word sequence (0: identical)
+export function normalizedWordDistance(a: string[], b: string[]): number {
+  const length = Math.max(a.length, b.length);
+  if (length === 0) return 0;
+  const vocabulary = new Map<string, number>();
+  return editDistance(toWordIds(a, vocabulary), toWordIds(b, vocabulary)) / length;
+}
+
+// True when the reference is too long to score (see MAX_SCORED_CHARS)
+export function isReferenceTooLong(reference: string): boolean {
+  return normalizeText(reference).length > MAX_SCORED_CHARS;
+}
+
+// Score a provider's markdown against the reference; null when the reference is empty or too long
+export function scoreText(output: string, reference: string): TextScore | null {
+  const hypothesis = normalizeText(output);
+  const truth = normalizeText(reference);
+  if (truth.length === 0 || truth.length > MAX_SCORED_CHARS) {
+    return null;
+  }
+
+  const truthChars = toCodePoints(truth);
+  const allHypothesisChars = toCodePoints(hypothesis);
+  const truncated = allHypothesisChars.length > MAX_COMPARED_OUTPUT_CHARS;
+  const hypothesisChars = truncated ? allHypothesisChars.slice(0, MAX_COMPARED_OUTPUT_CHARS) : allHypothesisChars;
+  const extraChars = allHypothesisChars.length - hypothesisChars.length;
+  const cer = (editDistance(hypothesisChars, truthChars) + extraChars) / truthChars.length;
+
+  const vocabulary = new Map<string, number>();
+  const truthWords = truth.split(" ");
+  const allHypothesisWords = hypothesis ? hypothesis.split(" ") : [];
+  // Words of the aligned prefix; the rest, like the characters, count as insertions
+  const comparedWords = truncated
+    ? hypothesisChars.filter((char) => char === SPACE).length + 1
+    : allHypothesisWords.length;
+  const hypothesisWords = allHypothesisWords.slice(0, comparedWords);
+  const extraWords = allHypothesisWords.length - hypothesisWords.length;
+  const wer =
+    (editDistance(toWordIds(hypothesisWords, vocabulary), toWordIds(truthWords, vocabulary)) + extraWords) /
+    truthWords.length;
+
+  return {
+    cer,
+    wer,
+    accuracy: Math.max(0, 1 - cer),
+    referenceChars: truthChars.length,
+    referenceWords: truthWords.length,
+    truncated,
+  };
+}
@@ -0,0 +1,366 @@
+import { APICallError, type FinishReason, generateText, NoObjectGeneratedError, Output, streamText } from "ai";
+import { z } from "zod";
+import {
+  getModel,
+  getRetryPolicy,
+  inferMimeType,
+  PDF_MIME_TYPE,
+  type ProviderConfig,
+  type ProviderOptions,
+  type RetryPolicy,
+} from "@/lib/providers";
+import { DEFAULT_PROMPT_TEMPLATE_ID, getPromptTemplate, hashPrompt } from "@/lib/prompts";
+import { BLOCK_TYPES, type BBox, type GenerationSettings, type ParseBlock } from "@/lib/types";
+import { rasterizePdfPages, splitPdfPages } from "./pdf-pages";
+import { withRetry } from "./retry";
+import { loadDocumentFile } from "./shared";
+import type { ParserAdapter, ParserInput, ParserResult } from "./types";
+
+// Prompt for the "blocks" output mode (prompt templates apply to markdown mode); the response
+// shape is enforced by LAYOUT_SCHEMA
+const BLOCKS_PROMPT = `You are a document layout analysis assistant. Segment this page into layout blocks and extract the text of each one.
+
+Instructions:
+- Return one block per heading, paragraph, list, table, figure, equation, code listing, page header and page footer
+- Give blocks in reading order (left-to-right, top-to-bottom, column by column)
+- content holds the exact text of the block; tables as markdown tables, equations as LaTeX, figures as a short description
+- bbox is the block's bounding box as fractions of the page size (0-1), with the origin at the top-left corner: x and y are the top-left corner, w and h the width and height
+- Include every block, do not summarize and do not add commentary`;
+
+// Schema-constrained output mirroring ParseBlock (ids and page index are assigned here)
+const LAYOUT_SCHEMA = z.object({
+  blocks: z.array(
+    z.object({
+      type: z.enum(BLOCK_TYPES),
+      content: z.string(),
+      bbox: z.object({
+        x: z.number(),
+        y: z.number(),
+        w: z.number(),
+        h: z.number(),
+      }),
+    })
+  ),
+});
+
+type LayoutBlock = z.infer<typeof LAYOUT_SCHEMA>["blocks"][number];
+
+type DocumentPart =
+  | { type: "image"; image: string | URL }
+  | { type: "file"; data: string; mediaType: string; filename?: string };
+
+interface PageResult {
+  markdown: string;
+  blocks: LayoutBlock[];
+  inputTokens: number;
+  outputTokens: number;
+  finishReason: FinishReason;
+  response: unknown;
+}
+
+type GenerationCallSettings = Pick<
+  Parameters<typeof generateText>[0],
+  "temperature" | "maxOutputTokens" | "seed" | "providerOptions"
+>;
+
+async function toDataUri(file: File): Promise<string> {
+  const buffer = await file.arrayBuffer();
+  return `data:${file.type};base64,${Buffer.from(buffer).toString("base64")}`;
+}
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+// Normalize a page's model-produced bboxes to 0-1 fractions clamped to the page. Some model
+// families (Gemini, Qwen-VL) answer in 0-1000 units regardless of the prompt.
+function normalizeLayoutBboxes(blocks: LayoutBlock[]): BBox[] {
+  const maxValue = Math.max(0, ...blocks.flatMap(({ bbox }) => [bbox.x + bbox.w, bbox.y + bbox.h]));
+  const scale = maxValue > 1.5 ? 1000 : 1;
+
+  return blocks.map(({ bbox }) => {
+    const x = clamp01(bbox.x / scale);
+    const y = clamp01(bbox.y / scale);
+    return {
+      x,
+      y,
+      w: Math.min(clamp01(bbox.w / scale), 1 - x),
+      h: Math.min(clamp01(bbox.h / scale), 1 - y),
+    };
+  });
+}
+
+// Render layout blocks the way the OCR parsers' markdown reads
+function layoutBlocksToMarkdown(blocks: LayoutBlock[]): string {
+  return blocks
+    .map((block) => {
+      switch (block.type) {
+        case "title":
+          return `## ${block.content}`;
+        case "equation":
+          return `$$\n${block.content}\n$$`;
+        case "code":
+          return "```\n" + block.content + "\n```";
+        case "figure":
+          return `*${block.content}*`;
+        default:
+          return block.content;
+      }
+    })
+    .filter((text) => text.trim())
+    .join("\n\n");
+}
+
+// Read the generation options and map the thinking budget onto the model family's request
+// options. The returned settings are the ones actually sent, so results record what the model got.
+function resolveGeneration(
+  provider: ProviderConfig,
+  options: ProviderOptions
+): { settings: GenerationSettings; call: GenerationCallSettings } {
+  const read = (key: string) => (typeof options[key] === "number" ? options[key] : undefined);
+  const settings: GenerationSettings = {
+    temperature: read("temperature"),
+    maxOutputTokens: read("max_output_tokens"),
+    seed: read("seed"),
+    reasoningBudget: read("reasoning_budget"),
+  };
+
+  let providerOptions: GenerationCallSettings["providerOptions"];
+  const family = provider.type === "ai-gateway" ? provider.modelId.split("/")[0] : null;
+  if (settings.reasoningBudget !== undefined) {
+    if (family === "anthropic") {
+      providerOptions = { anthropic: { thinking: { type: "enabled", budgetTokens: settings.reasoningBudget } } };
+      // Extended thinking only runs at the default temperature
+      if (settings.temperature !== undefined) {
+        console.warn(`[${provider.id}] Ignoring temperature: not supported with extended thinking`);
+        settings.temperature = undefined;
+      }
+    } else if (family === "google") {
+      providerOptions = { google: { thinkingConfig: { thinkingBudget: settings.reasoningBudget } } };
+    } else {
+      console.warn(`[${provider.id}] Ignoring thinking budget: not supported for this model`);
+      settings.reasoningBudget = undefined;
+    }
+  }
+
+  return {
+    settings,
+    call: {
+      temperature: settings.temperature,
+      maxOutputTokens: settings.maxOutputTokens,
+      seed: settings.seed,
+      providerOptions,
+    },
+  };
+}
+
+// Rate limits, overloads and dropped connections are worth another attempt under the provider's
+// retry policy; the SDK's own retries are disabled so attempts are counted in one place.
+function isTransientModelError(error: unknown, policy: RetryPolicy): boolean {
+  if (APICallError.isInstance(error) && error.isRetryable) return true;
+  const statusCode = (error as { statusCode?: unknown } | null)?.statusCode;
+  return typeof statusCode === "number" && policy.retryableStatuses.includes(statusCode);
+}
+
+async function parsePage(
+  model: ReturnType<typeof getModel>,
+  part: DocumentPart,
+  {
+    structured,
+    prompt,
+    generation,
+    signal,
+    onText,
+  }: {
+    structured: boolean;
+    prompt: string;
+    generation: GenerationCallSettings;
+    signal?: AbortSignal;
+    onText?: (delta: string) => void;
+  }
+): Promise<PageResult> {
+  if (structured) {
+    let result;
+    try {
+      result = await generateText({
+        model,
+        ...generation,
+        maxRetries: 0,
+        abortSignal: signal,
+        output: Output.object({ schema: LAYOUT_SCHEMA }),
+        messages: [{ role: "user", content: [{ type: "text", text: prompt }, part] }],
+      });
+    } catch (error) {
+      // A cut-off JSON answer fails schema parsing; say why instead of a generic failure
+      if (NoObjectGeneratedError.isInstance(error) && error.finishReason === "length") {
+        throw new Error("Vision LLM: Block output truncated at the output token limit");
+      }
+      throw error;
+    }
+    const blocks = result.output.blocks;
+    return {
+      markdown: layoutBlocksToMarkdown(blocks),
+      blocks,
+      inputTokens: result.usage?.inputTokens ?? 0,
+      outputTokens: result.usage?.outputTokens ?? 0,
+      finishReason: result.finishReason,
+      response: result.response,
+    };
+  }
+
+  const messages = [{ role: "user" as const, content: [{ type: "text" as const, text: prompt }, part] }];
+
+  if (onText) {
+    // streamText reports failures through onError rather than throwing from the stream
+    let streamError: unknown = null;
+    const result = streamText({
+      model,
+      ...generation,
+      maxRetries: 0,
+      abortSignal: signal,
+      messages,
+      onError: ({ error }) => {
+        streamError = error;
+      },
+    });
+    for await (const delta of result.textStream) {
+      onText(delta);
+    }
+    if (streamError) throw streamError;
+
+    const [text, usage, finishReason, response] = await Promise.all([
+      result.text,
+      result.usage,
+      result.finishReason,
+      result.response,
+    ]);
+    return {
+      markdown: text.trim(),
+      blocks: [],
+      inputTokens: usage.inputTokens ?? 0,
+      outputTokens: usage.outputTokens ?? 0,
+      finishReason,
+      response,
+    };
+  }
+
+  const result = await generateText({ model, ...generation, maxRetries: 0, abortSignal: signal, messages });
+  return {
+    markdown: result.text.trim(),
+    blocks: [],
+    inputTokens: result.usage?.inputTokens ?? 0,
+    outputTokens: result.usage?.outputTokens ?? 0,
+    finishReason: result.finishReason,
+    response: result.response,
+  };
+}
+
+// Split the input into per-page model inputs. PDFs go to the model one page at a time,
+// as single-page PDF file parts when the model reads PDFs natively and as rendered PNGs otherwise.
+async function loadPageParts(input: ParserInput): Promise<DocumentPart[]> {
+  const { file, url, provider } = input;
+
+  const mimeType = file ? file.type : url ? inferMimeType(new URL(url).pathname) : null;
+  if (mimeType !== PDF_MIME_TYPE) {
+    if (file) return [{ type: "image", image: await toDataUri(file) }];
+    if (url) return [{ type: "image", image: new URL(url) }];
+    throw new Error("Missing image data");
+  }
+
+  const pdf = await loadDocumentFile(input);
+  const { maxPages, pdfInput } = provider.capabilities;
+  const pages = pdfInput === "native"
+    ? await splitPdfPages(pdf, maxPages)
+    : await rasterizePdfPages(pdf, maxPages);
+  if (pages.length === 0) {
+    throw new Error("PDF has no pages");
+  }
+
+  return Promise.all(
+    pages.map(async (page): Promise<DocumentPart> => {
+      const data = await toDataUri(page);
+      return pdfInput === "native"
+        ? { type: "file", data, mediaType: page.type, filename: page.name }
+        : { type: "image", image: data };
+    })
+  );
+}
+
+export async function parseWithVisionModel(input: ParserInput): Promise<ParserResult> {
+  const { provider, options, onText } = input;
+  const parts = await loadPageParts(input);
+
+  const structured = options.output_mode === "blocks";
+  const defaultTemplate = getPromptTemplate(DEFAULT_PROMPT_TEMPLATE_ID)!;
+  const template = structured
+    ? { id: "layout-blocks", text: BLOCKS_PROMPT }
+    : { id: input.prompt?.templateId ?? defaultTemplate.id, text: input.prompt?.text ?? defaultTemplate.prompt };
+
+  const model = getModel(provider, input.apiKey);
+  const generation = resolveGeneration(provider, options);
+  const retryPolicy = input.retry?.policy ?? getRetryPolicy(provider);
+  const pages = await Promise.all(
+    parts.map((part, pageIndex) => {
+      // Once text has been streamed to the client a retry would duplicate it
+      let streamed = false;
+      return withRetry(
+        () =>
+          parsePage(model, part, {
+            structured,
+            prompt: template.text,
+            generation: generation.call,
+            signal: input.signal,
+            onText:
+              onText &&
+              ((delta) => {
+                streamed = true;
+                onText(delta, pageIndex);
+              }),
+          }),
+        (error) => !streamed && isTransientModelError(error, retryPolicy),
+        { retry: input.retry, signal: input.signal, label: provider.id }
+      );
+    })
+  );
+
+  let blockId = 0;
+  const blocks: ParseBlock[] = pages.flatMap((page, pageIndex) => {
+    const bboxes = normalizeLayoutBboxes(page.blocks);
+    return page.blocks.map((block, i) => ({
+      id: `${provider.id}-${blockId++}`,
+      type: block.type,
+      content: block.content,
+      bbox: bboxes[i],
+      pageIndex,
+    }));
+  });
+
+  const truncatedPages = pages.flatMap((page, pageIndex) => (page.finishReason === "length" ? [pageIndex + 1] : []));
+  if (truncatedPages.length > 0) {
+    console.warn(`[${provider.id}] Output truncated at the token limit on page(s) ${truncatedPages.join(", ")}`);
+  }
+
+  return {
+    outputs: {
+      markdown: pages.map((page) => page.markdown).join("\n\n---\n\n"),
+      // Markdown mode returns text only (no HTML/JSON blocks)
+      json: blocks.length > 0 ? { blocks } : undefined,
+    },
+    usage: {
+      pages: pages.length,
+      inputTokens: pages.reduce((sum, page) => sum + page.inputTokens, 0),
+      outputTokens: pages.reduce((sum, page) => sum + page.outputTokens, 0),
+    },
+    prompt: {
+      template: template.id,
+      hash: await hashPrompt(template.text),
+      edited: template.text !== (getPromptTemplate(template.id)?.prompt ?? BLOCKS_PROMPT) || undefined,
+    },
+    generation: generation.settings,
+    truncatedPages: truncatedPages.length > 0 ? truncatedPages : undefined,
+    raw: pages.length === 1 ? pages[0].response : pages.map((page) => page.response),
+  };
+}
+
+export const aiGatewayAdapter: ParserAdapter = {
+  type: "ai-gateway",
+  parse: parseWithVisionModel,
+};
@@ -0,0 +1,48 @@
+import type { RetryPolicy } from "@/lib/providers";
+
+// Per-provider circuit breaker for the deployment's own keys. After breakerThreshold consecutive
+// parses that failed even with retries, the provider is fast-failed for breakerCooldownMs instead
+// of hammering a service that is down. State is per server instance and resets on restart.
+
+interface CircuitState {
+  failures: number; // Consecutive parses that exhausted their retries
+  openUntil: number; // Epoch ms; requests are rejected until then
+  trial: boolean; // Half-open: one request after the cooldown is in flight, the rest wait for it
+}
+
+const circuits = new Map<string, CircuitState>();
+
+// Admit a request: null when it may proceed, otherwise seconds until the provider may be tried again.
+// After the cooldown a single request is let through as a trial; its outcome closes or reopens the circuit.
+export function enterCircuit(providerId: string, policy: RetryPolicy): number | null {
+  const circuit = circuits.get(providerId);
+  if (!circuit || circuit.openUntil === 0) return null;
+  const remaining = circuit.openUntil - Date.now();
+  if (remaining > 0) return Math.ceil(remaining / 1000);
+  if (circuit.trial) return Math.ceil(policy.breakerCooldownMs / 1000);
+  circuit.trial = true;
+  return null;
+}
+
+export function recordCircuitSuccess(providerId: string): void {
+  circuits.delete(providerId);
+}
+
+export function recordCircuitFailure(providerId: string, policy: RetryPolicy): void {
+  const circuit = circuits.get(providerId) ?? { failures: 0, openUntil: 0, trial: false };
+  circuit.failures++;
+  // A failed trial reopens the circuit straight away
+  if (circuit.trial || circuit.failures >= policy.breakerThreshold) {
+    circuit.openUntil = Date.now() + policy.breakerCooldownMs;
+    console.warn(`[${providerId}] Circuit open for ${policy.breakerCooldownMs / 1000}s after ${circuit.failures} failures`);
+  }
+  circuit.trial = false;
+  circuits.set(providerId, circuit);
+}
+
+// A trial that ended without telling anything about the provider (cancelled, rate limited,
+// rejected input) frees the slot for the next request
+export function releaseCircuitTrial(providerId: string): void {
+  const circuit = circuits.get(providerId);
+  if (circuit) circuit.trial = false;
+}
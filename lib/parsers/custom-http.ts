@@ -0,0 +1,193 @@
+import type { CustomHttpConfig, CustomHttpMapping } from "@/lib/providers";
+import { BLOCK_TYPES, type PageDimensions, type ParseBlock } from "@/lib/types";
+import { queryJsonPath, queryJsonPathFirst } from "./json-path";
+import { fetchWithRetry, type RetryState } from "./retry";
+import { loadDocumentFile } from "./shared";
+import type { ParserAdapter, ParserInput, ParserResult } from "./types";
+
+function toNumber(value: unknown): number | undefined {
+  const number = typeof value === "string" ? parseFloat(value) : value;
+  return typeof number === "number" && Number.isFinite(number) ? number : undefined;
+}
+
+function mapBlockType(raw: unknown, mapping: CustomHttpMapping): ParseBlock["type"] {
+  if (typeof raw !== "string") return "text";
+  const mapped = mapping.typeMap?.[raw] ?? raw.toLowerCase();
+  return BLOCK_TYPES.includes(mapped as ParseBlock["type"]) ? (mapped as ParseBlock["type"]) : "unknown";
+}
+
+// Accept [x, y, w, h] / [x0, y0, x1, y1] arrays or { x, y, w|width, h|height } objects
+function readBbox(raw: unknown, mapping: CustomHttpMapping): ParseBlock["bbox"] {
+  let values: Array<number | undefined>;
+  if (Array.isArray(raw) && raw.length >= 4) {
+    values = raw.slice(0, 4).map(toNumber);
+    if (mapping.bboxFormat === "xyxy" && values.every((v) => v !== undefined)) {
+      const [x0, y0, x1, y1] = values as number[];
+      values = [x0, y0, x1 - x0, y1 - y0];
+    }
+  } else if (raw && typeof raw === "object") {
+    const box = raw as Record<string, unknown>;
+    values = [box.x, box.y, box.w ?? box.width, box.h ?? box.height].map(toNumber);
+  } else {
+    return undefined;
+  }
+
+  if (values.some((v) => v === undefined)) return undefined;
+  const [x, y, w, h] = values as number[];
+  return { x, y, w, h };
+}
+
+function mapBlocks(data: unknown, mapping: CustomHttpMapping): { blocks: ParseBlock[]; dimensions: (PageDimensions | null)[] } {
+  if (!mapping.blocks) return { blocks: [], dimensions: [] };
+
+  const paths = mapping.block ?? {};
+  const pageBase = mapping.pageBase ?? 1;
+  const blocks: ParseBlock[] = [];
+  const dimensions: PageDimensions[] = [];
+  let blockId = 0;
+
+  // Page size may live on each block or once at the response root
+  const readSize = (item: unknown, path: string | undefined) =>
+    path ? toNumber(queryJsonPathFirst(item, path) ?? queryJsonPathFirst(data, path)) : undefined;
+
+  for (const item of queryJsonPath(data, mapping.blocks)) {
+    const content = paths.content ? queryJsonPathFirst(item, paths.content) : item;
+    const page = paths.page ? toNumber(queryJsonPathFirst(item, paths.page)) : undefined;
+    const pageIndex = Math.max(0, (page ?? pageBase) - pageBase);
+
+    let bbox = paths.bbox ? readBbox(queryJsonPathFirst(item, paths.bbox), mapping) : undefined;
+    const width = readSize(item, mapping.pageWidth);
+    const height = readSize(item, mapping.pageHeight);
+    if (width && height) {
+      dimensions[pageIndex] ??= { width, height };
+      if (bbox) {
+        bbox = { x: bbox.x / width, y: bbox.y / height, w: bbox.w / width, h: bbox.h / height };
+      }
+    }
+
+    const confidence = paths.confidence ? toNumber(queryJsonPathFirst(item, paths.confidence)) : undefined;
+
+    blocks.push({
+      id: `custom-${blockId++}`,
+      type: mapBlockType(paths.type ? queryJsonPathFirst(item, paths.type) : undefined, mapping),
+      content: typeof content === "string" ? content : JSON.stringify(content ?? ""),
+      bbox,
+      confidence,
+      pageIndex,
+    });
+  }
+
+  console.log(`[Custom parser] Total blocks: ${blocks.length}, with bbox: ${blocks.filter(b => b.bbox).length}`);
+  // Pages without coordinates stay as null so the array still lines up with pageIndex
+  return { blocks, dimensions: Array.from(dimensions, (size) => size ?? null) };
+}
+
+async function sendToCustomParser(
+  file: File,
+  http: CustomHttpConfig,
+  signal?: AbortSignal,
+  retry?: RetryState
+): Promise<unknown> {
+  const fileField = http.fileField ?? "file";
+  const headers: Record<string, string> = { "Accept": "application/json" };
+
+  if (http.auth) {
+    const secret = process.env[http.auth.env];
+    if (!secret) {
+      console.error(`Custom parser: ${http.auth.env} is not set`);
+      throw new Error("Custom parser: Auth secret not configured");
+    }
+    headers[http.auth.header] = `${http.auth.prefix ?? ""}${secret}`;
+  }
+
+  let body: BodyInit;
+  if (http.request === "json") {
+    headers["Content-Type"] = "application/json";
+    body = JSON.stringify({
+      ...http.fields,
+      [fileField]: Buffer.from(await file.arrayBuffer()).toString("base64"),
+      filename: file.name,
+      mimeType: file.type,
+    });
+  } else {
+    const formData = new FormData();
+    formData.append(fileField, file);
+    for (const [key, value] of Object.entries(http.fields ?? {})) {
+      formData.append(key, value);
+    }
+    body = formData;
+  }
+
+  let response: Response;
+  try {
+    response = await fetchWithRetry(
+      http.url,
+      { method: "POST", headers, body, signal },
+      { retry, label: "Custom parser" }
+    );
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    console.error("Custom parser connection error:", error);
+    throw new Error("Custom parser: Could not reach server");
+  }
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error("Custom parser error:", errorText);
+    throw new Error(`Custom parser: Request failed (${response.status})`);
+  }
+
+  try {
+    return await response.json();
+  } catch {
+    throw new Error("Custom parser: Response is not valid JSON");
+  }
+}
+
+function mapResponse(data: unknown, mapping: CustomHttpMapping): ParserResult {
+  const markdown = queryJsonPath(data, mapping.markdown).filter((part): part is string => typeof part === "string");
+  if (markdown.length === 0) {
+    throw new Error(`Custom parser: No markdown found at ${mapping.markdown}`);
+  }
+
+  const html = mapping.html
+    ? queryJsonPath(data, mapping.html).filter((part): part is string => typeof part === "string").join("\n")
+    : "";
+  const { blocks, dimensions } = mapBlocks(data, mapping);
+  const pages = mapping.pages ? toNumber(queryJsonPathFirst(data, mapping.pages)) : undefined;
+
+  return {
+    outputs: {
+      markdown: markdown.join("\n\n---\n\n"),
+      html: html || undefined,
+      json: blocks.length > 0 ? { blocks, dimensions: dimensions.length > 0 ? dimensions : undefined } : undefined,
+    },
+    usage: { pages: pages ?? markdown.length },
+    raw: data,
+  };
+}
+
+async function parseCustomHttp(input: ParserInput): Promise<ParserResult> {
+  const http = input.provider.http;
+  if (!http) {
+    throw new Error(`Custom parser: No HTTP configuration for ${input.provider.id}`);
+  }
+
+  const file = await loadDocumentFile(input);
+  const data = await sendToCustomParser(file, http, input.signal, input.retry);
+
+  try {
+    return mapResponse(data, http.mapping);
+  } catch (error) {
+    // Surface mapping mistakes (e.g. a malformed path) with the provider prefix
+    if (error instanceof Error && !error.message.startsWith("Custom parser")) {
+      throw new Error(`Custom parser: ${error.message}`);
+    }
+    throw error;
+  }
+}
+
+export const customHttpAdapter: ParserAdapter = {
+  type: "custom-http",
+  parse: parseCustomHttp,
+};
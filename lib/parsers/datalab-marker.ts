@@ -0,0 +1,463 @@
+import type { ProviderOptions } from "@/lib/providers";
+import type { ParseBlock } from "@/lib/types";
+import { pollJob } from "./polling";
+import { fetchWithRetry, type RetryState } from "./retry";
+import { escapeRegex, loadDocumentFile, uploadImageToBlob } from "./shared";
+import type { ParserAdapter, ParserInput, ParserResult } from "./types";
+
+const DATALAB_MARKER_API = "https://www.datalab.to/api/v1/marker";
+
+// Total time to wait for a conversion (accurate mode on long PDFs is slow)
+const DATALAB_MARKER_DEADLINE_MS = 180_000;
+
+interface DatalabMarkerSubmitResponse {
+  request_id: string;
+  request_check_url: string;
+  success: boolean;
+  error?: string;
+}
+
+interface DatalabMarkerBlock {
+  id?: string;
+  block_type: string;
+  text?: string;
+  html?: string;
+  polygon?: Array<[number, number]>;
+  bbox?: [number, number, number, number]; // [x1, y1, x2, y2]
+  page_idx?: number;
+  children?: DatalabMarkerBlock[];
+}
+
+interface DatalabMarkerJsonOutput {
+  children?: DatalabMarkerBlock[];
+  block_type?: string;
+  bbox?: [number, number, number, number]; // [x1, y1, x2, y2] - page dimensions
+  [key: string]: unknown;
+}
+
+interface DatalabMarkerResultResponse {
+  status: string;
+  success: boolean;
+  markdown?: string;
+  html?: string;
+  json?: DatalabMarkerJsonOutput | DatalabMarkerBlock[]; // JSON output - can be object or array
+  children?: DatalabMarkerBlock[]; // Alternative field name for blocks
+  images?: Record<string, string>; // Map of image filename to base64 data
+  page_count?: number;
+  parse_quality_score?: number;
+  error?: string;
+  metadata?: {
+    page_width?: number;
+    page_height?: number;
+    pages?: Array<{ width: number; height: number; page_num: number }>;
+    [key: string]: unknown;
+  };
+}
+
+// Process Datalab Marker markdown to embed images inline
+async function processMarkerMarkdown(
+  markdown: string,
+  images: Record<string, string> | undefined
+): Promise<string> {
+  console.log("Marker processing - images available:", images ? Object.keys(images).length : 0);
+  if (images && Object.keys(images).length > 0) {
+    console.log("Marker image keys:", Object.keys(images));
+    // Log first few chars of first image value to see format
+    const firstKey = Object.keys(images)[0];
+    const firstValue = images[firstKey];
+    console.log("Marker first image value starts with:", firstValue?.substring(0, 50));
+  }
+  
+  // Find all image references in markdown
+  const imageRefs = markdown.match(/!\[[^\]]*\]\([^)]+\)/g) || [];
+  console.log("Marker image references in markdown:", imageRefs);
+
+  if (!images || Object.keys(images).length === 0) {
+    // No images to embed, strip broken image references
+    return markdown.replace(/!\[([^\]]*)\]\(([^)]+)\)/g, (match, alt, src) => {
+      // Keep external URLs (http/https), strip local file references
+      if (src.startsWith('http://') || src.startsWith('https://') || src.startsWith('data:')) {
+        return match;
+      }
+      return alt ? `[Image: ${alt}]` : '[Image]';
+    });
+  }
+
+  let processed = markdown;
+  
+  // Replace image references with URLs (upload to blob or use inline data URI)
+  for (const [filename, base64] of Object.entries(images)) {
+    // Try to upload to Vercel Blob first, fallback to inline data URI
+    let imageUrl: string;
+    const blobUrl = await uploadImageToBlob(base64, `marker-${Date.now()}-${filename}`);
+    
+    if (blobUrl) {
+      imageUrl = blobUrl;
+    } else {
+      // Fallback to inline data URI
+      imageUrl = base64.startsWith('data:') ? base64 : `data:image/png;base64,${base64}`;
+    }
+    
+    // Try exact match first
+    const exactPattern = new RegExp(`!\\[([^\\]]*)\\]\\(${escapeRegex(filename)}\\)`, 'gi');
+    const before = processed;
+    processed = processed.replace(exactPattern, `![$1](${imageUrl})`);
+    
+    if (processed !== before) {
+      console.log("Marker replaced image:", filename);
+    } else {
+      // Try matching just the filename without path
+      const filenameOnly = filename.split('/').pop() || filename;
+      const loosePattern = new RegExp(`!\\[([^\\]]*)\\]\\([^)]*${escapeRegex(filenameOnly)}[^)]*\\)`, 'gi');
+      processed = processed.replace(loosePattern, `![$1](${imageUrl})`);
+    }
+  }
+
+  // Strip any remaining broken local image references
+  processed = processed.replace(/!\[([^\]]*)\]\(([^)]+)\)/g, (match, alt, src) => {
+    if (src.startsWith('http://') || src.startsWith('https://') || src.startsWith('data:')) {
+      return match;
+    }
+    console.log("Marker stripping unmatched image:", src);
+    return alt ? `[Image: ${alt}]` : '[Image]';
+  });
+
+  return processed;
+}
+
+// Process Datalab Marker HTML to embed images inline
+async function processMarkerHtml(
+  html: string,
+  images: Record<string, string> | undefined
+): Promise<string> {
+  if (!html) return "";
+  
+  if (!images || Object.keys(images).length === 0) {
+    // No images to embed, strip broken image references
+    return html.replace(/<img\s+[^>]*src="([^"]+)"[^>]*>/gi, (match, src) => {
+      if (src.startsWith('http://') || src.startsWith('https://') || src.startsWith('data:')) {
+        return match;
+      }
+      return '<!-- Image removed: ' + src + ' -->';
+    });
+  }
+
+  let processed = html;
+  
+  // Replace image src attributes with uploaded URLs
+  for (const [filename, base64] of Object.entries(images)) {
+    // Try to upload to Vercel Blob first, fallback to inline data URI
+    let imageUrl: string;
+    const blobUrl = await uploadImageToBlob(base64, `marker-html-${Date.now()}-${filename}`);
+    
+    if (blobUrl) {
+      imageUrl = blobUrl;
+    } else {
+      imageUrl = base64.startsWith('data:') ? base64 : `data:image/png;base64,${base64}`;
+    }
+    
+    // Replace src="filename" patterns
+    const srcPattern = new RegExp(`src=["']${escapeRegex(filename)}["']`, 'gi');
+    processed = processed.replace(srcPattern, `src="${imageUrl}"`);
+    
+    // Also try just the filename without path
+    const filenameOnly = filename.split('/').pop() || filename;
+    const looseSrcPattern = new RegExp(`src=["'][^"']*${escapeRegex(filenameOnly)}["']`, 'gi');
+    processed = processed.replace(looseSrcPattern, `src="${imageUrl}"`);
+  }
+
+  // Strip any remaining broken local image src
+  processed = processed.replace(/<img\s+[^>]*src="([^"]+)"[^>]*>/gi, (match, src) => {
+    if (src.startsWith('http://') || src.startsWith('https://') || src.startsWith('data:')) {
+      return match;
+    }
+    console.log("[Marker HTML] stripping unmatched image:", src);
+    return '<!-- Image removed -->';
+  });
+
+  return processed;
+}
+
+function normalizeMarkerBlocks(
+  jsonData: DatalabMarkerJsonOutput | DatalabMarkerBlock[] | undefined, 
+  pageWidth = 1, 
+  pageHeight = 1
+): ParseBlock[] {
+  if (!jsonData) return [];
+  
+  const blocks: ParseBlock[] = [];
+  let blockId = 0;
+
+  function processBlock(block: DatalabMarkerBlock) {
+    if (!block || typeof block !== 'object') return;
+    
+    let bbox: ParseBlock["bbox"] | undefined;
+    
+    // Try to get bbox from polygon or bbox field
+    if (block.polygon && Array.isArray(block.polygon) && block.polygon.length >= 4) {
+      const xs = block.polygon.map(p => p[0]);
+      const ys = block.polygon.map(p => p[1]);
+      const minX = Math.min(...xs);
+      const minY = Math.min(...ys);
+      const maxX = Math.max(...xs);
+      const maxY = Math.max(...ys);
+      bbox = {
+        x: minX / pageWidth,
+        y: minY / pageHeight,
+        w: (maxX - minX) / pageWidth,
+        h: (maxY - minY) / pageHeight,
+      };
+    } else if (block.bbox && Array.isArray(block.bbox)) {
+      bbox = {
+        x: block.bbox[0] / pageWidth,
+        y: block.bbox[1] / pageHeight,
+        w: (block.bbox[2] - block.bbox[0]) / pageWidth,
+        h: (block.bbox[3] - block.bbox[1]) / pageHeight,
+      };
+    }
+
+    // Only add if we have a block_type
+    if (block.block_type) {
+      blocks.push({
+        id: `marker-${blockId++}`,
+        type: mapMarkerBlockType(block.block_type),
+        content: block.text || block.html || "",
+        bbox,
+        pageIndex: block.page_idx ?? 0,
+      });
+    }
+
+    // Process nested children
+    if (block.children && Array.isArray(block.children)) {
+      for (const child of block.children) {
+        processBlock(child);
+      }
+    }
+  }
+
+  // Handle different structures
+  if (Array.isArray(jsonData)) {
+    // jsonData is array of blocks
+    for (const block of jsonData) {
+      processBlock(block);
+    }
+  } else if (typeof jsonData === 'object') {
+    // jsonData is an object - check for children array or process as single block
+    if (jsonData.children && Array.isArray(jsonData.children)) {
+      for (const block of jsonData.children) {
+        processBlock(block as DatalabMarkerBlock);
+      }
+    } else if (jsonData.block_type) {
+      // It's a single block object
+      processBlock(jsonData as unknown as DatalabMarkerBlock);
+    }
+  }
+
+  return blocks;
+}
+
+function mapMarkerBlockType(blockType: string): ParseBlock["type"] {
+  const typeMap: Record<string, ParseBlock["type"]> = {
+    "Text": "text",
+    "TextInlineMath": "text",
+    "Title": "title",
+    "SectionHeader": "title",
+    "Table": "table",
+    "TableCell": "table",
+    "Figure": "figure",
+    "FigureCaption": "figure",
+    "ListGroup": "list",
+    "ListItem": "list",
+    "Code": "code",
+    "Equation": "equation",
+    "PageHeader": "header",
+    "PageFooter": "footer",
+  };
+  return typeMap[blockType] || "unknown";
+}
+
+async function submitToDatalabMarker(
+  apiKey: string,
+  file: File,
+  mode: string,
+  maxPages: number,
+  options: ProviderOptions,
+  signal?: AbortSignal,
+  retry?: RetryState
+): Promise<string> {
+  const formData = new FormData();
+  formData.append("mode", mode);
+  formData.append("output_format", "markdown,html,json");
+  // Limit pages for PDFs to control costs (0-indexed, so "0-1" means pages 1-2)
+  formData.append("page_range", `0-${maxPages - 1}`);
+  // User-provided options
+  formData.append("force_ocr", String(Boolean(options.force_ocr)));
+  formData.append("paginate", String(Boolean(options.paginate)));
+  formData.append("use_llm", String(Boolean(options.use_llm)));
+  formData.append("file", file);
+
+  const response = await fetchWithRetry(DATALAB_MARKER_API, {
+    method: "POST",
+    headers: {
+      "X-API-Key": apiKey,
+    },
+    body: formData,
+    signal,
+  }, { retry, label: "Datalab Marker", idempotent: false });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error("Datalab Marker submit error:", errorText);
+    throw new Error("Datalab Marker: Failed to submit document");
+  }
+
+  const data = await response.json() as DatalabMarkerSubmitResponse;
+  
+  if (!data.success) {
+    throw new Error(`Datalab Marker: ${data.error || "Submission failed"}`);
+  }
+
+  return data.request_id;
+}
+
+async function checkDatalabMarkerResult(
+  apiKey: string,
+  requestId: string,
+  signal?: AbortSignal,
+  retry?: RetryState
+): Promise<DatalabMarkerResultResponse> {
+  const response = await fetchWithRetry(`${DATALAB_MARKER_API}/${requestId}`, {
+    method: "GET",
+    headers: {
+      "X-API-Key": apiKey,
+      "Accept": "application/json",
+    },
+    signal,
+  }, { retry, label: "Datalab Marker" });
+
+  if (!response.ok) {
+    throw new Error("Datalab Marker: Failed to check result status");
+  }
+
+  return response.json() as Promise<DatalabMarkerResultResponse>;
+}
+
+async function parseDatalabMarker(input: ParserInput): Promise<ParserResult> {
+  const apiKey = input.apiKey ?? process.env.DATALAB_API_KEY;
+  if (!apiKey) {
+    throw new Error("Datalab Marker: API key not configured");
+  }
+
+  const file = await loadDocumentFile(input);
+  const requestId = await submitToDatalabMarker(
+    apiKey,
+    file,
+    input.provider.modelId,
+    input.provider.capabilities.maxPages,
+    input.options,
+    input.signal,
+    input.retry
+  );
+
+  // The request is not cancelled upstream: on abort we only stop polling for the result, and
+  // Marker finishes (and bills) it anyway (capabilities.detachedJob)
+  const { value: result, stats: polling } = await pollJob(
+    async () => {
+      const result = await checkDatalabMarkerResult(apiKey, requestId, input.signal, input.retry);
+      if (result.status === "error" || (result.status === "complete" && !result.success)) {
+        throw new Error(`Datalab Marker: ${result.error || "Processing failed"}`);
+      }
+      return result.status === "complete" ? result : undefined;
+    },
+    { label: "Datalab Marker", deadlineMs: DATALAB_MARKER_DEADLINE_MS, signal: input.signal }
+  );
+
+  // Process markdown and HTML to embed images inline or strip broken references
+  const rawMarkdown = result.markdown || "";
+  const rawHtml = result.html || "";
+  const [processedMarkdown, processedHtml] = await Promise.all([
+    processMarkerMarkdown(rawMarkdown, result.images),
+    processMarkerHtml(rawHtml, result.images),
+  ]);
+
+  // Check both json and children fields for blocks
+  const blockData = result.json || result.children;
+  console.log("Datalab Marker response keys:", Object.keys(result));
+  console.log("Datalab Marker has json:", !!result.json, "has children:", !!result.children);
+  if (result.json) {
+    console.log("Datalab Marker json type:", Array.isArray(result.json) ? "array" : typeof result.json);
+    if (!Array.isArray(result.json) && typeof result.json === 'object') {
+      console.log("Datalab Marker json keys:", Object.keys(result.json));
+    }
+  }
+
+  // Extract page dimensions from metadata or from Page block
+  let pageWidth = 1;
+  let pageHeight = 1;
+  if (result.metadata?.pages?.[0]) {
+    pageWidth = result.metadata.pages[0].width || 1;
+    pageHeight = result.metadata.pages[0].height || 1;
+    console.log("[Marker] page dims from metadata:", pageWidth, "x", pageHeight);
+  } else if (result.metadata?.page_width && result.metadata?.page_height) {
+    pageWidth = result.metadata.page_width;
+    pageHeight = result.metadata.page_height;
+    console.log("[Marker] page dims from metadata (flat):", pageWidth, "x", pageHeight);
+  } else if (result.json && typeof result.json === 'object' && !Array.isArray(result.json)) {
+    // Try to extract from the Page block's bbox [x1, y1, x2, y2]
+    const jsonObj = result.json as DatalabMarkerJsonOutput;
+    if (jsonObj.bbox && Array.isArray(jsonObj.bbox) && jsonObj.bbox.length === 4) {
+      pageWidth = jsonObj.bbox[2] - jsonObj.bbox[0];
+      pageHeight = jsonObj.bbox[3] - jsonObj.bbox[1];
+      console.log("[Marker] page dims from Page bbox:", pageWidth, "x", pageHeight);
+    } else if (jsonObj.children?.[0]?.bbox) {
+      // Try first child if Page block has no bbox
+      const firstBbox = jsonObj.children[0].bbox;
+      if (Array.isArray(firstBbox) && firstBbox.length === 4) {
+        // Estimate from first block - not ideal but better than 1x1
+        console.log("[Marker] Warning: using first child bbox as estimate");
+      }
+    }
+  }
+
+  // Fallback: if still 1x1, try to find Page block in children
+  if (pageWidth === 1 && pageHeight === 1 && result.json) {
+    const jsonObj = result.json as DatalabMarkerJsonOutput;
+    if (jsonObj.children) {
+      const pageBlock = jsonObj.children.find((b: DatalabMarkerBlock) => b.block_type === 'Page');
+      if (pageBlock?.bbox && Array.isArray(pageBlock.bbox) && pageBlock.bbox.length === 4) {
+        pageWidth = pageBlock.bbox[2] - pageBlock.bbox[0];
+        pageHeight = pageBlock.bbox[3] - pageBlock.bbox[1];
+        console.log("[Marker] page dims from child Page block:", pageWidth, "x", pageHeight);
+      }
+    }
+  }
+
+  // Debug: log first block structure
+  if (result.json) {
+    const sampleBlock = Array.isArray(result.json) 
+      ? result.json[0] 
+      : (result.json as DatalabMarkerJsonOutput)?.children?.[0];
+    if (sampleBlock) {
+      console.log("[Marker] Sample block:", JSON.stringify(sampleBlock, null, 2));
+    }
+  }
+
+  const blocks = normalizeMarkerBlocks(blockData, pageWidth, pageHeight);
+  console.log("[Marker] normalized blocks:", blocks.length, "with bbox:", blocks.filter(b => b.bbox).length);
+
+  return {
+    outputs: {
+      markdown: processedMarkdown,
+      html: processedHtml || undefined,
+      json: blocks.length > 0 ? { blocks } : undefined,
+    },
+    usage: { pages: result.page_count ?? 1 },
+    polling,
+    raw: result,
+  };
+}
+
+export const datalabMarkerAdapter: ParserAdapter = {
+  type: "datalab-marker",
+  parse: parseDatalabMarker,
+};
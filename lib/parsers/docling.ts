@@ -0,0 +1,200 @@
+import type { ProviderOptions } from "@/lib/providers";
+import type { PageDimensions, ParseBlock } from "@/lib/types";
+import { fetchWithRetry, type RetryState } from "./retry";
+import { loadDocumentFile } from "./shared";
+import type { ParserAdapter, ParserInput, ParserResult } from "./types";
+
+// Docling-serve default port when running the container locally
+const DOCLING_DEFAULT_BASE_URL = "http://localhost:5001";
+
+interface DoclingBBox {
+  l: number;
+  t: number;
+  r: number;
+  b: number;
+  coord_origin?: "TOPLEFT" | "BOTTOMLEFT";
+}
+
+interface DoclingProvenance {
+  page_no: number;
+  bbox: DoclingBBox;
+}
+
+interface DoclingItem {
+  self_ref: string;
+  label: string;
+  text?: string;
+  prov?: DoclingProvenance[];
+  data?: {
+    grid?: Array<Array<{ text: string }>>;
+  };
+}
+
+interface DoclingDocument {
+  texts?: DoclingItem[];
+  tables?: DoclingItem[];
+  pictures?: DoclingItem[];
+  pages?: Record<string, { page_no: number; size: { width: number; height: number } }>;
+}
+
+interface DoclingConvertResponse {
+  document: {
+    md_content?: string;
+    html_content?: string;
+    json_content?: DoclingDocument;
+  };
+  status: "success" | "partial_success" | "skipped" | "failure";
+  errors?: Array<{ error_message?: string }>;
+  processing_time?: number;
+}
+
+function mapDoclingLabel(label: string): ParseBlock["type"] {
+  const typeMap: Record<string, ParseBlock["type"]> = {
+    "title": "title",
+    "section_header": "title",
+    "text": "text",
+    "paragraph": "text",
+    "caption": "text",
+    "footnote": "text",
+    "list_item": "list",
+    "table": "table",
+    "document_index": "table",
+    "picture": "figure",
+    "chart": "figure",
+    "formula": "equation",
+    "code": "code",
+    "page_header": "header",
+    "page_footer": "footer",
+  };
+  return typeMap[label] || "unknown";
+}
+
+function normalizeDoclingBlocks(doc: DoclingDocument | undefined): { blocks: ParseBlock[]; dimensions: PageDimensions[] } {
+  if (!doc) return { blocks: [], dimensions: [] };
+
+  const pages = Object.values(doc.pages ?? {}).sort((a, b) => a.page_no - b.page_no);
+  const sizeByPage = new Map(pages.map((page) => [page.page_no, page.size]));
+  const blocks: ParseBlock[] = [];
+  let blockId = 0;
+
+  const items = [...(doc.texts ?? []), ...(doc.tables ?? []), ...(doc.pictures ?? [])];
+  for (const item of items) {
+    const prov = item.prov?.[0];
+    const size = prov ? sizeByPage.get(prov.page_no) : undefined;
+
+    let bbox: ParseBlock["bbox"] = undefined;
+    if (prov && size) {
+      const { l, t, r, b, coord_origin } = prov.bbox;
+      // Docling uses PDF-style bottom-left origin unless stated otherwise
+      const top = coord_origin === "TOPLEFT" ? t : size.height - t;
+      bbox = {
+        x: l / size.width,
+        y: top / size.height,
+        w: (r - l) / size.width,
+        h: Math.abs(b - t) / size.height,
+      };
+    }
+
+    const content = item.text ??
+      item.data?.grid?.map((row) => row.map((cell) => cell.text).join(" | ")).join("\n") ??
+      "";
+
+    blocks.push({
+      id: `docling-${blockId++}`,
+      type: mapDoclingLabel(item.label),
+      content,
+      bbox,
+      pageIndex: prov ? prov.page_no - 1 : 0,
+    });
+  }
+
+  console.log(`[Docling] Total blocks: ${blocks.length}, with bbox: ${blocks.filter(b => b.bbox).length}`);
+  return { blocks, dimensions: pages.map((page) => page.size) };
+}
+
+async function convertWithDocling(
+  file: File,
+  baseUrl: string,
+  apiKey: string | undefined,
+  maxPages: number,
+  options: ProviderOptions,
+  signal?: AbortSignal,
+  retry?: RetryState
+): Promise<DoclingConvertResponse> {
+  const formData = new FormData();
+  formData.append("files", file);
+  for (const format of ["md", "json", "html"]) {
+    formData.append("to_formats", format);
+  }
+  formData.append("do_ocr", String(options.do_ocr ?? true));
+  formData.append("table_mode", String(options.table_mode ?? "accurate"));
+  // Keep image placeholders instead of embedding base64 in every output
+  formData.append("image_export_mode", "placeholder");
+  formData.append("page_range", "1");
+  formData.append("page_range", String(maxPages));
+
+  const headers: HeadersInit = { "Accept": "application/json" };
+  if (apiKey) {
+    headers["X-Api-Key"] = apiKey;
+  }
+
+  let response: Response;
+  try {
+    response = await fetchWithRetry(
+      `${baseUrl.replace(/\/$/, "")}/v1/convert/file`,
+      { method: "POST", headers, body: formData, signal },
+      { retry, label: "Docling" }
+    );
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    console.error("Docling connection error:", error);
+    throw new Error("Docling: Could not reach server");
+  }
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error("Docling convert error:", errorText);
+    throw new Error("Docling: Failed to convert document");
+  }
+
+  return response.json() as Promise<DoclingConvertResponse>;
+}
+
+async function parseDocling(input: ParserInput): Promise<ParserResult> {
+  const file = await loadDocumentFile(input);
+  const baseUrl = input.provider.baseUrl ?? process.env.DOCLING_BASE_URL ?? DOCLING_DEFAULT_BASE_URL;
+
+  const apiKey = input.apiKey ?? process.env.DOCLING_API_KEY;
+
+  const data = await convertWithDocling(
+    file,
+    baseUrl,
+    apiKey,
+    input.provider.capabilities.maxPages,
+    input.options,
+    input.signal,
+    input.retry
+  );
+
+  if (data.status === "failure" || data.status === "skipped") {
+    throw new Error(`Docling: ${data.errors?.[0]?.error_message || "Conversion failed"}`);
+  }
+
+  const markdown = data.document.md_content ?? "";
+  const { blocks, dimensions } = normalizeDoclingBlocks(data.document.json_content);
+
+  return {
+    outputs: {
+      markdown,
+      html: data.document.html_content || undefined,
+      json: blocks.length > 0 ? { blocks, dimensions: dimensions.length > 0 ? dimensions : undefined } : undefined,
+    },
+    usage: { pages: dimensions.length || 1 },
+    raw: data,
+  };
+}
+
+export const doclingAdapter: ParserAdapter = {
+  type: "docling",
+  parse: parseDocling,
+};
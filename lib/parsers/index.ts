@@ -0,0 +1,32 @@
+import type { ProviderType } from "@/lib/providers";
+import { aiGatewayAdapter } from "./ai-gateway";
+import { customHttpAdapter } from "./custom-http";
+import { datalabMarkerAdapter } from "./datalab-marker";
+import { doclingAdapter } from "./docling";
+import { llamaParseAdapter } from "./llamaparse";
+import { mistralOcrAdapter } from "./mistral-ocr";
+import { openAICompatibleAdapter } from "./openai-compatible";
+import { pdfTextAdapter } from "./pdf-text";
+import { tesseractAdapter } from "./tesseract";
+import { unstructuredAdapter } from "./unstructured";
+import type { ParserAdapter } from "./types";
+
+export type { ParserAdapter, ParserInput, ParserResult, ParserUsage } from "./types";
+
+// Registry of parser implementations, one per provider type
+const ADAPTERS: Record<ProviderType, ParserAdapter> = {
+  "ai-gateway": aiGatewayAdapter,
+  "openai-compatible": openAICompatibleAdapter,
+  "llamaparse": llamaParseAdapter,
+  "mistral-ocr": mistralOcrAdapter,
+  "datalab-marker": datalabMarkerAdapter,
+  "tesseract": tesseractAdapter,
+  "pdf-text": pdfTextAdapter,
+  "docling": doclingAdapter,
+  "unstructured": unstructuredAdapter,
+  "custom-http": customHttpAdapter,
+};
+
+export function getParserAdapter(type: ProviderType): ParserAdapter {
+  return ADAPTERS[type];
+}
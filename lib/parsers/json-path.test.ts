@@ -0,0 +1,54 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { queryJsonPath, queryJsonPathFirst } from "./json-path";
+
+const data = {
+  pages: [
+    { number: 1, elements: [{ text: "a" }, { text: "b" }] },
+    { number: 2, elements: [{ text: "c" }] },
+  ],
+  "page-size": { width: 612 },
+  meta: { "odd key": true },
+};
+
+describe("queryJsonPath", () => {
+  it("returns the root for $", () => {
+    assert.deepEqual(queryJsonPath(data, "$"), [data]);
+  });
+
+  it("follows keys and bracketed keys", () => {
+    assert.deepEqual(queryJsonPath(data, "$.page-size.width"), [612]);
+    assert.deepEqual(queryJsonPath(data, "$.meta['odd key']"), [true]);
+    assert.deepEqual(queryJsonPath(data, '$["meta"]["odd key"]'), [true]);
+  });
+
+  it("indexes arrays, negative indexes from the end", () => {
+    assert.deepEqual(queryJsonPath(data, "$.pages[0].number"), [1]);
+    assert.deepEqual(queryJsonPath(data, "$.pages[-1].number"), [2]);
+    assert.deepEqual(queryJsonPath(data, "$.pages[5]"), []);
+  });
+
+  it("expands wildcards over arrays and objects", () => {
+    assert.deepEqual(queryJsonPath(data, "$.pages[*].elements[*].text"), ["a", "b", "c"]);
+    assert.deepEqual(queryJsonPath(data, "$.page-size.*"), [612]);
+  });
+
+  it("returns nothing for missing paths", () => {
+    assert.deepEqual(queryJsonPath(data, "$.missing.deeper"), []);
+    assert.deepEqual(queryJsonPath(data, "$.pages[0].number.value"), []);
+    assert.equal(queryJsonPathFirst(data, "$.missing"), undefined);
+  });
+
+  it("treats inherited properties as missing", () => {
+    assert.deepEqual(queryJsonPath(data, "$.constructor"), []);
+    assert.deepEqual(queryJsonPath(data, "$.__proto__"), []);
+    assert.deepEqual(queryJsonPath(data, "$.pages.map"), []);
+    assert.deepEqual(queryJsonPath(data, "$.pages.length"), [2]);
+  });
+
+  it("rejects paths outside the supported subset", () => {
+    assert.throws(() => queryJsonPath(data, "pages"), /must start with \$/);
+    assert.throws(() => queryJsonPath(data, "$.pages[?(@.number)]"), /near "\[\?/);
+    assert.throws(() => queryJsonPath(data, "$..text"), /Invalid JSONPath/);
+  });
+});
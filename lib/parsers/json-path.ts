@@ -0,0 +1,68 @@
+// Minimal JSONPath subset for declarative response mappings:
+// $ (root), .key, ['key'], [n] (negative counts from the end), [*] and .* (wildcards)
+const SEGMENT_PATTERN = /\.([A-Za-z_$][\w$-]*)|\.\*|\[(\*|-?\d+|'[^']*'|"[^"]*")\]/g;
+
+type PathSegment = { kind: "key"; key: string } | { kind: "index"; index: number } | { kind: "wildcard" };
+
+function parsePath(path: string): PathSegment[] {
+  const trimmed = path.trim();
+  if (!trimmed.startsWith("$")) {
+    throw new Error(`Invalid JSONPath "${path}": must start with $`);
+  }
+
+  const rest = trimmed.slice(1);
+  const segments: PathSegment[] = [];
+  let consumed = 0;
+
+  for (const match of rest.matchAll(SEGMENT_PATTERN)) {
+    if (match.index !== consumed) break;
+    consumed += match[0].length;
+
+    if (match[1] !== undefined) {
+      segments.push({ kind: "key", key: match[1] });
+    } else if (match[0] === ".*" || match[2] === "*") {
+      segments.push({ kind: "wildcard" });
+    } else if (/^-?\d+$/.test(match[2])) {
+      segments.push({ kind: "index", index: parseInt(match[2], 10) });
+    } else {
+      segments.push({ kind: "key", key: match[2].slice(1, -1) });
+    }
+  }
+
+  if (consumed !== rest.length) {
+    throw new Error(`Invalid JSONPath "${path}" near "${rest.slice(consumed)}"`);
+  }
+  return segments;
+}
+
+// Return every value matched by the path (empty when nothing matches)
+export function queryJsonPath(data: unknown, path: string): unknown[] {
+  let current: unknown[] = [data];
+
+  for (const segment of parsePath(path)) {
+    const next: unknown[] = [];
+    for (const value of current) {
+      if (value === null || typeof value !== "object") continue;
+
+      if (segment.kind === "wildcard") {
+        next.push(...(Array.isArray(value) ? value : Object.values(value)));
+      } else if (segment.kind === "index") {
+        if (Array.isArray(value)) {
+          const item = value.at(segment.index);
+          if (item !== undefined) next.push(item);
+        }
+      } else if (Object.hasOwn(value, segment.key)) {
+        // Own properties only: $.constructor or $.__proto__ must not reach the prototype
+        next.push((value as Record<string, unknown>)[segment.key]);
+      }
+    }
+    current = next;
+  }
+
+  return current;
+}
+
+// First match of the path, or undefined
+export function queryJsonPathFirst(data: unknown, path: string): unknown {
+  return queryJsonPath(data, path)[0];
+}
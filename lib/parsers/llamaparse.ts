@@ -0,0 +1,332 @@
+import type { ProviderOptions } from "@/lib/providers";
+import type { ParseBlock } from "@/lib/types";
+import { pollJob } from "./polling";
+import { fetchWithRetry, type RetryState } from "./retry";
+import { loadDocumentFile } from "./shared";
+import type { ParserAdapter, ParserInput, ParserResult } from "./types";
+
+const LLAMAPARSE_API_BASE = "https://api.cloud.llamaindex.ai/api/parsing";
+
+// Total time to wait for a parsing job
+const LLAMAPARSE_DEADLINE_MS = 120_000;
+
+interface LlamaParseJobResponse {
+  id: string;
+  status: string;
+}
+
+interface LlamaParseStatusResponse {
+  id: string;
+  status: "PENDING" | "SUCCESS" | "ERROR" | "PARTIAL_SUCCESS";
+  num_pages?: number;
+  error_message?: string;
+}
+
+interface LlamaParseLayoutItem {
+  type: string;
+  label?: string;
+  bbox: { x: number; y: number; w: number; h: number };
+  confidence?: number;
+  page_number?: number;
+  image_name?: string;
+  isLikelyNoise?: boolean;
+}
+
+interface LlamaParseJsonPage {
+  page: number;
+  text?: string;
+  md?: string;
+  width?: number;
+  height?: number;
+  items?: Array<{
+    type: string;
+    value?: string;
+    lvl?: number;
+    bBox?: { x: number; y: number; w: number; h: number };
+    children?: Array<{ type: string; value?: string }>;
+  }>;
+  layout?: LlamaParseLayoutItem[];
+}
+
+interface LlamaParseJsonResult {
+  pages: LlamaParseJsonPage[];
+}
+
+// Provider modelId -> LlamaParse `tier` form value
+const LLAMAPARSE_TIERS: Record<string, string> = {
+  "cost-effective": "cost_effective",
+  "agentic": "agentic",
+  "agentic-plus": "agentic_plus",
+};
+
+async function uploadToLlamaParse(
+  apiKey: string,
+  file: File,
+  tier: string,
+  maxPages: number,
+  options: ProviderOptions,
+  signal?: AbortSignal,
+  retry?: RetryState
+): Promise<string> {
+  const llamaTier = LLAMAPARSE_TIERS[tier];
+  if (!llamaTier) {
+    throw new Error(`LlamaParse: Unknown tier "${tier}"`);
+  }
+
+  const formData = new FormData();
+  formData.append("file", file);
+  // Parsing tier (pricing and quality preset)
+  formData.append("tier", llamaTier);
+  formData.append("version", "latest");
+  // Enable layout extraction to get bounding boxes (costs 1 extra credit per page)
+  formData.append("extract_layout", "true");
+  // Request coordinate output in JSON
+  formData.append("coordinates", "true");
+  // Limit pages for PDFs to control costs
+  formData.append("target_pages", `0-${maxPages - 1}`);
+  // User-provided options
+  if (options.parsing_instruction) {
+    formData.append("parsing_instruction", String(options.parsing_instruction));
+  }
+  if (options.disable_ocr) {
+    formData.append("disable_ocr", "true");
+  }
+
+  const response = await fetchWithRetry(`${LLAMAPARSE_API_BASE}/upload`, {
+    method: "POST",
+    headers: {
+      "Authorization": `Bearer ${apiKey}`,
+    },
+    body: formData,
+    signal,
+  }, { retry, label: "LlamaParse", idempotent: false });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error("LlamaParse upload error:", errorText);
+    throw new Error("LlamaParse: Failed to upload file");
+  }
+
+  const data = await response.json() as LlamaParseJobResponse;
+  return data.id;
+}
+
+async function checkLlamaParseStatus(
+  apiKey: string,
+  jobId: string,
+  signal?: AbortSignal,
+  retry?: RetryState
+): Promise<LlamaParseStatusResponse> {
+  const response = await fetchWithRetry(`${LLAMAPARSE_API_BASE}/job/${jobId}`, {
+    method: "GET",
+    headers: {
+      "Authorization": `Bearer ${apiKey}`,
+      "Accept": "application/json",
+    },
+    signal,
+  }, { retry, label: "LlamaParse" });
+
+  if (!response.ok) {
+    throw new Error("LlamaParse: Failed to check job status");
+  }
+
+  return response.json() as Promise<LlamaParseStatusResponse>;
+}
+
+async function getLlamaParseMarkdown(
+  apiKey: string,
+  jobId: string,
+  signal?: AbortSignal,
+  retry?: RetryState
+): Promise<string> {
+  const response = await fetchWithRetry(`${LLAMAPARSE_API_BASE}/job/${jobId}/result/markdown`, {
+    method: "GET",
+    headers: {
+      "Authorization": `Bearer ${apiKey}`,
+      "Accept": "application/json",
+    },
+    signal,
+  }, { retry, label: "LlamaParse" });
+
+  if (!response.ok) {
+    throw new Error("LlamaParse: Failed to get markdown results");
+  }
+
+  const data = await response.json() as { markdown: string };
+  return data.markdown;
+}
+
+async function getLlamaParseJson(
+  apiKey: string,
+  jobId: string,
+  signal?: AbortSignal,
+  retry?: RetryState
+): Promise<LlamaParseJsonResult | null> {
+  try {
+    const response = await fetchWithRetry(`${LLAMAPARSE_API_BASE}/job/${jobId}/result/json`, {
+      method: "GET",
+      headers: {
+        "Authorization": `Bearer ${apiKey}`,
+        "Accept": "application/json",
+      },
+      signal,
+    }, { retry, label: "LlamaParse" });
+
+    if (!response.ok) {
+      return null;
+    }
+
+    return response.json() as Promise<LlamaParseJsonResult>;
+  } catch {
+    return null;
+  }
+}
+
+function normalizeLlamaParseBlocks(jsonResult: LlamaParseJsonResult | null): ParseBlock[] {
+  if (!jsonResult?.pages) return [];
+  
+  const blocks: ParseBlock[] = [];
+  let blockId = 0;
+
+  for (const page of jsonResult.pages) {
+    const pageWidth = page.width || 1;
+    const pageHeight = page.height || 1;
+    
+    console.log(`[LlamaParse] Page ${page.page}: layout=${page.layout?.length ?? 0}, items=${page.items?.length ?? 0}, dims=${pageWidth}x${pageHeight}`);
+    
+    // Extract from layout if available (preferred - has bounding boxes)
+    if (page.layout && page.layout.length > 0) {
+      console.log("[LlamaParse] Using layout data for bboxes");
+      for (const item of page.layout) {
+        // Skip noise elements
+        if (item.isLikelyNoise) continue;
+        
+        const type = item.label || item.type;
+        blocks.push({
+          id: `llama-${blockId++}`,
+          type: mapLlamaParseType(type),
+          content: "",
+          bbox: item.bbox, // Already in 0-1 fraction format
+          confidence: item.confidence,
+          pageIndex: page.page - 1,
+        });
+      }
+    }
+    
+    // Extract from items if available (has content, may have bBox with coordinates=true)
+    if (page.items && page.items.length > 0) {
+      console.log("[LlamaParse] Processing items for content");
+      for (const item of page.items) {
+        // Check if item has bBox (available when coordinates=true)
+        let bbox: ParseBlock["bbox"] = undefined;
+        if (item.bBox) {
+          // bBox from items might be in pixels, need to normalize
+          bbox = {
+            x: item.bBox.x / pageWidth,
+            y: item.bBox.y / pageHeight,
+            w: item.bBox.w / pageWidth,
+            h: item.bBox.h / pageHeight,
+          };
+          console.log(`[LlamaParse] Item ${item.type} has bBox:`, item.bBox, "-> normalized:", bbox);
+        }
+        
+        blocks.push({
+          id: `llama-${blockId++}`,
+          type: mapLlamaParseType(item.type),
+          content: item.value || "",
+          bbox,
+          pageIndex: page.page - 1,
+        });
+      }
+    }
+  }
+
+  console.log(`[LlamaParse] Total normalized blocks: ${blocks.length}, with bbox: ${blocks.filter(b => b.bbox).length}`);
+  return blocks;
+}
+
+function mapLlamaParseType(type: string): ParseBlock["type"] {
+  const typeMap: Record<string, ParseBlock["type"]> = {
+    "text": "text",
+    "table": "table",
+    "figure": "figure",
+    "title": "title",
+    "heading": "title",
+    "list": "list",
+    "list_item": "list",
+    "header": "header",
+    "footer": "footer",
+    "code": "code",
+    "equation": "equation",
+  };
+  return typeMap[type.toLowerCase()] || "unknown";
+}
+
+async function parseLlamaParse(input: ParserInput): Promise<ParserResult> {
+  const apiKey = input.apiKey ?? process.env.LLAMA_PARSE_API_KEY;
+  if (!apiKey) {
+    throw new Error("LlamaParse API key not configured");
+  }
+
+  const file = await loadDocumentFile(input);
+  const jobId = await uploadToLlamaParse(
+    apiKey,
+    file,
+    input.provider.modelId,
+    input.provider.capabilities.maxPages,
+    input.options,
+    input.signal,
+    input.retry
+  );
+
+  // The job is not cancelled upstream: on abort we only stop polling and skip the result fetches,
+  // and LlamaParse finishes (and bills) the job anyway (capabilities.detachedJob)
+  const { value: status, stats: polling } = await pollJob(
+    async () => {
+      const status = await checkLlamaParseStatus(apiKey, jobId, input.signal, input.retry);
+      if (status.status === "ERROR") {
+        throw new Error(`LlamaParse: ${status.error_message || "Processing failed"}`);
+      }
+      return status.status === "SUCCESS" || status.status === "PARTIAL_SUCCESS" ? status : undefined;
+    },
+    { label: "LlamaParse", deadlineMs: LLAMAPARSE_DEADLINE_MS, signal: input.signal }
+  );
+
+  const [markdown, jsonResult] = await Promise.all([
+    getLlamaParseMarkdown(apiKey, jobId, input.signal, input.retry),
+    getLlamaParseJson(apiKey, jobId, input.signal, input.retry),
+  ]);
+
+  console.log("[LlamaParse] jsonResult keys:", jsonResult ? Object.keys(jsonResult) : "null");
+  console.log("[LlamaParse] pages count:", jsonResult?.pages?.length ?? 0);
+  if (jsonResult?.pages?.[0]) {
+    const firstPage = jsonResult.pages[0];
+    console.log("[LlamaParse] First page keys:", Object.keys(firstPage));
+    console.log("[LlamaParse] First page has layout:", !!firstPage.layout, "count:", firstPage.layout?.length);
+    console.log("[LlamaParse] First page has items:", !!firstPage.items, "count:", firstPage.items?.length);
+    if (firstPage.layout?.[0]) {
+      console.log("[LlamaParse] Sample layout item:", JSON.stringify(firstPage.layout[0], null, 2));
+    }
+    if (firstPage.items?.[0]) {
+      console.log("[LlamaParse] Sample item:", JSON.stringify(firstPage.items[0], null, 2));
+    }
+  }
+
+  const blocks = normalizeLlamaParseBlocks(jsonResult);
+  console.log("[LlamaParse] Final blocks:", blocks.length, "with bbox:", blocks.filter(b => b.bbox).length);
+
+  return {
+    outputs: {
+      markdown,
+      json: blocks.length > 0 ? { blocks } : undefined,
+    },
+    usage: { pages: status.num_pages ?? 1 },
+    polling,
+    raw: jsonResult,
+  };
+}
+
+export const llamaParseAdapter: ParserAdapter = {
+  type: "llamaparse",
+  parse: parseLlamaParse,
+};
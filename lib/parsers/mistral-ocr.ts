@@ -0,0 +1,280 @@
+import type { ParseBlock } from "@/lib/types";
+import { fetchWithRetry } from "./retry";
+import { escapeRegex, loadDocumentFile, uploadImageToBlob } from "./shared";
+import type { ParserAdapter, ParserInput, ParserResult } from "./types";
+
+const MISTRAL_OCR_API = "https://api.mistral.ai/v1/ocr";
+
+interface MistralOCRImage {
+  id: string;
+  image_base64?: string;
+  top_left_x?: number;
+  top_left_y?: number;
+  bottom_right_x?: number;
+  bottom_right_y?: number;
+}
+
+interface MistralOCRTable {
+  id: string;
+  html?: string;
+  content?: string; // API returns HTML in "content" field when format is "html"
+  markdown?: string;
+  format?: string;
+  top_left_x?: number;
+  top_left_y?: number;
+  bottom_right_x?: number;
+  bottom_right_y?: number;
+}
+
+interface MistralOCRPage {
+  index: number;
+  markdown: string;
+  images?: MistralOCRImage[];
+  tables?: MistralOCRTable[];
+  dimensions?: { width: number; height: number };
+}
+
+// Process Mistral markdown to embed images and tables inline
+async function processMistralMarkdown(
+  markdown: string,
+  images: MistralOCRImage[],
+  tables: MistralOCRTable[]
+): Promise<string> {
+  let processed = markdown;
+  
+  console.log("Mistral processing - images:", images.length, "tables:", tables.length);
+  console.log("Mistral table IDs:", tables.map(t => t.id));
+
+  // Replace image references with URLs (upload to blob or use inline data URI)
+  for (const img of images) {
+    if (img.image_base64) {
+      // Try to upload to Vercel Blob first, fallback to inline data URI
+      let imageUrl: string;
+      const blobUrl = await uploadImageToBlob(img.image_base64, `mistral-${Date.now()}-${img.id}`);
+      
+      if (blobUrl) {
+        imageUrl = blobUrl;
+      } else {
+        // Fallback to inline data URI
+        imageUrl = `data:image/jpeg;base64,${img.image_base64}`;
+      }
+      
+      // Match patterns like ![...](image_id) or ![...](image_id.jpg) or ![...](image_id.extension)
+      const imgPattern = new RegExp(`!\\[([^\\]]*)\\]\\(${escapeRegex(img.id)}[^)]*\\)`, 'gi');
+      processed = processed.replace(imgPattern, `![$1](${imageUrl})`);
+    } else {
+      // Remove image references if no base64 available
+      const imgPattern = new RegExp(`!\\[([^\\]]*)\\]\\(${escapeRegex(img.id)}[^)]*\\)`, 'gi');
+      processed = processed.replace(imgPattern, '[Image: $1]');
+    }
+  }
+
+  // Replace table references with inline HTML
+  // Tables can be referenced as [text](tbl-N.html) or similar patterns
+  for (let i = 0; i < tables.length; i++) {
+    const table = tables[i];
+    const tableHtml = table.html || table.content; // API returns HTML in "content" field
+    if (tableHtml) {
+      console.log(`[Mistral] Table ${i} has HTML content, length: ${tableHtml.length}`);
+      // Try multiple patterns: exact id, id with .html, tbl-N pattern
+      const patterns = [
+        new RegExp(`\\[([^\\]]*)\\]\\(${escapeRegex(table.id)}\\)`, 'gi'),
+        new RegExp(`\\[([^\\]]*)\\]\\(${escapeRegex(table.id)}\\.html\\)`, 'gi'),
+        new RegExp(`\\[([^\\]]*)\\]\\(tbl-${i}\\.html\\)`, 'gi'),
+        new RegExp(`\\[([^\\]]*)\\]\\(tbl-${i}\\)`, 'gi'),
+      ];
+      
+      for (const pattern of patterns) {
+        const before = processed;
+        processed = processed.replace(pattern, `\n\n${tableHtml}\n\n`);
+        if (processed !== before) {
+          console.log("[Mistral] Replaced table with pattern:", pattern.source);
+          break;
+        }
+      }
+    }
+  }
+  
+  // Also try to replace any remaining tbl-N.html references with table HTML if available
+  processed = processed.replace(/\[([^\]]*)\]\((tbl-\d+\.html)\)/gi, (match, text, href) => {
+    const tableIndex = parseInt(href.match(/tbl-(\d+)/)?.[1] || "-1");
+    const tableHtml = tables[tableIndex]?.html || tables[tableIndex]?.content;
+    if (tableIndex >= 0 && tableIndex < tables.length && tableHtml) {
+      console.log("[Mistral] Replaced remaining table reference:", href);
+      return `\n\n${tableHtml}\n\n`;
+    }
+    return `[Table: ${text}]`;
+  });
+
+  return processed;
+}
+
+interface MistralOCRResponse {
+  pages: MistralOCRPage[];
+  model: string;
+  usage_info?: {
+    pages_processed?: number;
+  };
+}
+
+function normalizeMistralBlocks(data: MistralOCRResponse): ParseBlock[] {
+  const blocks: ParseBlock[] = [];
+  let blockId = 0;
+
+  console.log("[Mistral] pages count:", data.pages.length);
+  
+  for (const page of data.pages) {
+    const dims = page.dimensions;
+    console.log(`[Mistral] Page ${page.index}: dims=${dims?.width}x${dims?.height}, images=${page.images?.length ?? 0}, tables=${page.tables?.length ?? 0}`);
+    
+    // Add markdown content as a text block (no bbox for full page text)
+    if (page.markdown) {
+      blocks.push({
+        id: `mistral-text-${blockId++}`,
+        type: "text",
+        content: page.markdown,
+        pageIndex: page.index,
+      });
+    }
+
+    // Add images with bounding boxes
+    if (page.images && page.images.length > 0) {
+      console.log("[Mistral] Sample image:", JSON.stringify(page.images[0], (key, val) => key === 'image_base64' ? '[base64]' : val, 2));
+      for (const img of page.images) {
+        const bbox = dims && img.top_left_x !== undefined && img.top_left_y !== undefined &&
+          img.bottom_right_x !== undefined && img.bottom_right_y !== undefined
+          ? {
+              x: img.top_left_x / dims.width,
+              y: img.top_left_y / dims.height,
+              w: (img.bottom_right_x - img.top_left_x) / dims.width,
+              h: (img.bottom_right_y - img.top_left_y) / dims.height,
+            }
+          : undefined;
+
+        if (bbox) {
+          console.log(`[Mistral] Image ${img.id} bbox: [${img.top_left_x},${img.top_left_y}]-[${img.bottom_right_x},${img.bottom_right_y}] -> normalized:`, bbox);
+        }
+
+        blocks.push({
+          id: `mistral-img-${blockId++}`,
+          type: "figure",
+          content: img.id,
+          bbox,
+          pageIndex: page.index,
+        });
+      }
+    }
+
+    // Add tables with bounding boxes and HTML content
+    if (page.tables && page.tables.length > 0) {
+      console.log("[Mistral] Sample table:", JSON.stringify({ ...page.tables[0], html: page.tables[0].html ? '[html]' : undefined }, null, 2));
+      for (const table of page.tables) {
+        const bbox = dims && table.top_left_x !== undefined && table.top_left_y !== undefined &&
+          table.bottom_right_x !== undefined && table.bottom_right_y !== undefined
+          ? {
+              x: table.top_left_x / dims.width,
+              y: table.top_left_y / dims.height,
+              w: (table.bottom_right_x - table.top_left_x) / dims.width,
+              h: (table.bottom_right_y - table.top_left_y) / dims.height,
+            }
+          : undefined;
+
+        if (bbox) {
+          console.log(`[Mistral] Table ${table.id} bbox: [${table.top_left_x},${table.top_left_y}]-[${table.bottom_right_x},${table.bottom_right_y}] -> normalized:`, bbox);
+        }
+
+        blocks.push({
+          id: `mistral-table-${blockId++}`,
+          type: "table",
+          content: table.html || table.content || table.markdown || table.id,
+          bbox,
+          pageIndex: page.index,
+        });
+      }
+    }
+  }
+
+  console.log(`[Mistral] Total blocks: ${blocks.length}, with bbox: ${blocks.filter(b => b.bbox).length}`);
+  return blocks;
+}
+
+async function parseMistralOCR(input: ParserInput): Promise<ParserResult> {
+  const apiKey = input.apiKey ?? process.env.MISTRAL_API_KEY;
+  if (!apiKey) {
+    throw new Error("Mistral OCR: API key not configured");
+  }
+
+  const file = await loadDocumentFile(input);
+  const buffer = await file.arrayBuffer();
+  const base64 = Buffer.from(buffer).toString("base64");
+  const dataUri = `data:${file.type};base64,${base64}`;
+
+  const isImage = file.type.startsWith("image/");
+  const document: { type: string; document_url?: string; image_url?: string } = isImage
+    ? { type: "image_url", image_url: dataUri }
+    : { type: "document_url", document_url: dataUri };
+
+  const response = await fetchWithRetry(MISTRAL_OCR_API, {
+    method: "POST",
+    headers: {
+      "Authorization": `Bearer ${apiKey}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      model: "mistral-ocr-latest",
+      document,
+      table_format: input.options.table_format ?? "html",
+      include_image_base64: input.options.include_image_base64 ?? true, // Include base64 to embed images inline
+    }),
+    signal: input.signal,
+  }, { retry: input.retry, label: "Mistral OCR" });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error("Mistral OCR error:", errorText);
+    throw new Error("Mistral OCR: Failed to process document");
+  }
+
+  const data = await response.json() as MistralOCRResponse;
+  
+  // Collect all images and tables across pages
+  const allImages = data.pages.flatMap((p) => p.images || []);
+  const allTables = data.pages.flatMap((p) => p.tables || []);
+  
+  // Process markdown to embed images and tables inline
+  const processedPages = await Promise.all(
+    data.pages.map((page) => processMistralMarkdown(page.markdown, page.images || [], page.tables || []))
+  );
+  const processedMarkdown = processedPages.join("\n\n---\n\n");
+
+  // Build HTML from tables (for HTML tab, only when tables come back as HTML)
+  const tablesHtml = input.options.table_format === "markdown"
+    ? ""
+    : allTables
+        .map((t) => t.html || t.content)
+        .filter(Boolean)
+        .join("\n");
+
+  const pages = data.usage_info?.pages_processed ?? data.pages.length;
+  const blocks = normalizeMistralBlocks(data);
+  
+  // Extract page dimensions
+  const dimensions = data.pages
+    .filter((p) => p.dimensions)
+    .map((p) => p.dimensions!);
+
+  return {
+    outputs: {
+      markdown: processedMarkdown,
+      html: tablesHtml || undefined,
+      json: blocks.length > 0 ? { blocks, dimensions: dimensions.length > 0 ? dimensions : undefined } : undefined,
+    },
+    usage: { pages },
+    raw: data,
+  };
+}
+
+export const mistralOcrAdapter: ParserAdapter = {
+  type: "mistral-ocr",
+  parse: parseMistralOCR,
+};
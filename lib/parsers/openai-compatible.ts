@@ -0,0 +1,15 @@
+import { parseWithVisionModel } from "./ai-gateway";
+import { loadDocumentFile } from "./shared";
+import type { ParserAdapter, ParserInput, ParserResult } from "./types";
+
+// Same prompt and pipeline as AI Gateway models; getModel resolves the endpoint.
+// Local servers often cannot reach the internet, so URLs are fetched here and sent inline.
+async function parseWithOpenAICompatible(input: ParserInput): Promise<ParserResult> {
+  const file = await loadDocumentFile(input);
+  return parseWithVisionModel({ ...input, file, url: null });
+}
+
+export const openAICompatibleAdapter: ParserAdapter = {
+  type: "openai-compatible",
+  parse: parseWithOpenAICompatible,
+};
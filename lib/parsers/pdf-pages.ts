@@ -0,0 +1,66 @@
+import type { Canvas } from "@napi-rs/canvas";
+import { PDFDocument } from "pdf-lib";
+
+// Longest side of a rasterized page; ~150 DPI for US Letter, within vision model limits
+const MAX_RASTER_DIMENSION = 1600;
+
+function pageFileName(file: File, pageNumber: number, extension: string): string {
+  const base = file.name.replace(/\.pdf$/i, "") || "document";
+  return `${base}-page-${pageNumber}.${extension}`;
+}
+
+// Split a PDF into single-page PDFs, for models that accept native PDF file parts
+export async function splitPdfPages(file: File, maxPages: number): Promise<File[]> {
+  const source = await PDFDocument.load(await file.arrayBuffer());
+  const pageCount = Math.min(source.getPageCount(), maxPages);
+  const pages: File[] = [];
+
+  for (let i = 0; i < pageCount; i++) {
+    const pageDoc = await PDFDocument.create();
+    const [page] = await pageDoc.copyPages(source, [i]);
+    pageDoc.addPage(page);
+    const bytes = await pageDoc.save();
+    pages.push(new File([new Uint8Array(bytes)], pageFileName(file, i + 1, "pdf"), { type: "application/pdf" }));
+  }
+
+  return pages;
+}
+
+// pdfjs types its render target as a DOM canvas (`canvas` and `canvasContext` alike). On the server it
+// draws through the same 2D context API of an @napi-rs/canvas, which is not assignable to the DOM types.
+function asRenderTarget(canvas: Canvas): HTMLCanvasElement {
+  return canvas as unknown as HTMLCanvasElement;
+}
+
+// Render PDF pages to PNG images, for image-only vision models
+export async function rasterizePdfPages(file: File, maxPages: number): Promise<File[]> {
+  const data = new Uint8Array(await file.arrayBuffer());
+
+  const [{ getDocument, VerbosityLevel }, { createCanvas }] = await Promise.all([
+    import("pdfjs-dist/legacy/build/pdf.mjs"),
+    import("@napi-rs/canvas"),
+  ]);
+  const pdf = await getDocument({ data, isEvalSupported: false, verbosity: VerbosityLevel.ERRORS }).promise;
+  const pages: File[] = [];
+
+  try {
+    const pageCount = Math.min(pdf.numPages, maxPages);
+    for (let pageNumber = 1; pageNumber <= pageCount; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const { width, height } = page.getViewport({ scale: 1 });
+      const viewport = page.getViewport({ scale: Math.min(2, MAX_RASTER_DIMENSION / Math.max(width, height)) });
+
+      const canvas = createCanvas(Math.ceil(viewport.width), Math.ceil(viewport.height));
+      await page.render({ canvas: asRenderTarget(canvas), viewport }).promise;
+
+      const png = await canvas.encode("png");
+      pages.push(new File([new Uint8Array(png)], pageFileName(file, pageNumber, "png"), { type: "image/png" }));
+      page.cleanup();
+    }
+  } finally {
+    await pdf.destroy();
+  }
+
+  console.log(`[PDF Raster] Rendered ${pages.length} page(s) from ${file.name}`);
+  return pages;
+}
@@ -0,0 +1,176 @@
+import type { TextItem } from "pdfjs-dist/types/src/display/api";
+import type { PageViewport } from "pdfjs-dist/types/src/display/display_utils";
+import type { PageDimensions, ParseBlock } from "@/lib/types";
+import { loadDocumentFile } from "./shared";
+import type { ParserAdapter, ParserInput, ParserResult } from "./types";
+
+// A text item's box in viewport space: y down, page rotation and mediaBox offset applied
+interface PositionedText {
+  str: string;
+  left: number;
+  right: number;
+  top: number;
+  bottom: number; // On the baseline
+  fontSize: number;
+}
+
+// A run of text items sharing a baseline, in PDF content-stream order
+interface TextLine {
+  text: string;
+  x0: number;
+  x1: number;
+  top: number;
+  bottom: number;
+  fontSize: number;
+}
+
+// Map the item's box from PDF user space through the viewport transform, which handles /Rotate
+// and mediaBoxes that do not start at 0,0
+function toViewportBox(item: TextItem, viewport: PageViewport): PositionedText {
+  const fontSize = Math.hypot(item.transform[2], item.transform[3]) || item.height;
+  const x = item.transform[4];
+  const y = item.transform[5];
+  const [ax, ay] = viewport.convertToViewportPoint(x, y) as [number, number];
+  const [bx, by] = viewport.convertToViewportPoint(x + item.width, y + fontSize) as [number, number];
+  return {
+    str: item.str,
+    left: Math.min(ax, bx),
+    right: Math.max(ax, bx),
+    top: Math.min(ay, by),
+    bottom: Math.max(ay, by),
+    fontSize,
+  };
+}
+
+// Group text items into lines, keeping the content-stream order (usually reading order)
+function groupTextLines(items: TextItem[], viewport: PageViewport): TextLine[] {
+  const lines: TextLine[] = [];
+  let current: TextLine | null = null;
+  let baseline = 0;
+
+  for (const item of items) {
+    if (!item.str.trim()) continue;
+
+    const box = toViewportBox(item, viewport);
+    const { fontSize } = box;
+
+    const sameLine = current && Math.abs(box.bottom - baseline) < fontSize * 0.5 && box.left >= current.x1 - fontSize;
+    if (current && sameLine) {
+      const gap = box.left - current.x1;
+      const needsSpace = gap > fontSize * 0.15 && !current.text.endsWith(" ") && !item.str.startsWith(" ");
+      current.text += (needsSpace ? " " : "") + item.str;
+      current.x1 = Math.max(current.x1, box.right);
+      current.top = Math.min(current.top, box.top);
+      current.bottom = Math.max(current.bottom, box.bottom);
+      current.fontSize = Math.max(current.fontSize, fontSize);
+    } else {
+      current = { text: item.str, x0: box.left, x1: box.right, top: box.top, bottom: box.bottom, fontSize };
+      baseline = box.bottom;
+      lines.push(current);
+    }
+  }
+
+  return lines.map((line) => ({ ...line, text: line.text.replace(/\s+/g, " ").trim() }));
+}
+
+// Most common font size, used to tell headings from body text
+function bodyFontSize(lines: TextLine[]): number {
+  const counts = new Map<number, number>();
+  for (const line of lines) {
+    const size = Math.round(line.fontSize);
+    counts.set(size, (counts.get(size) ?? 0) + line.text.length);
+  }
+  let best = 0;
+  let bestCount = -1;
+  for (const [size, count] of counts) {
+    if (count > bestCount) {
+      best = size;
+      bestCount = count;
+    }
+  }
+  return best || 1;
+}
+
+async function parsePdfTextLayer(input: ParserInput): Promise<ParserResult> {
+  const file = await loadDocumentFile(input);
+  const data = new Uint8Array(await file.arrayBuffer());
+
+  const { getDocument, VerbosityLevel } = await import("pdfjs-dist/legacy/build/pdf.mjs");
+  const pdf = await getDocument({ data, isEvalSupported: false, verbosity: VerbosityLevel.ERRORS }).promise;
+
+  const blocks: ParseBlock[] = [];
+  const dimensions: PageDimensions[] = [];
+  const pageMarkdown: string[] = [];
+  let blockId = 0;
+
+  try {
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const viewport = page.getViewport({ scale: 1 });
+      const textContent = await page.getTextContent();
+      dimensions.push({ width: viewport.width, height: viewport.height });
+
+      const items = textContent.items.filter((item): item is TextItem => "str" in item);
+      const lines = groupTextLines(items, viewport);
+      const bodySize = bodyFontSize(lines);
+      console.log(`[PDF Text] Page ${pageNumber}: items=${items.length}, lines=${lines.length}, body size=${bodySize}`);
+
+      const parts: string[] = [];
+      let previous: TextLine | null = null;
+
+      for (const line of lines) {
+        const isHeading = line.fontSize > bodySize * 1.3 && line.text.length < 120;
+
+        // Paragraph break on a large vertical gap, a jump back up (new column) or around headings
+        const startsParagraph = !previous ||
+          isHeading ||
+          previous.fontSize > bodySize * 1.3 ||
+          line.top - previous.bottom > previous.fontSize * 0.8 ||
+          line.top < previous.top;
+
+        if (startsParagraph && parts.length > 0) {
+          parts.push("");
+        }
+        parts.push(isHeading ? `## ${line.text}` : line.text);
+
+        blocks.push({
+          id: `pdftext-${blockId++}`,
+          type: isHeading ? "title" : "text",
+          content: line.text,
+          bbox: {
+            x: line.x0 / viewport.width,
+            y: line.top / viewport.height,
+            w: (line.x1 - line.x0) / viewport.width,
+            h: (line.bottom - line.top) / viewport.height,
+          },
+          confidence: 1,
+          pageIndex: pageNumber - 1,
+        });
+
+        previous = line;
+      }
+
+      pageMarkdown.push(parts.join("\n"));
+      page.cleanup();
+    }
+  } finally {
+    await pdf.destroy();
+  }
+
+  if (blocks.length === 0) {
+    throw new Error("PDF Text Layer: No embedded text found (scanned document?)");
+  }
+
+  return {
+    outputs: {
+      markdown: pageMarkdown.join("\n\n---\n\n"),
+      json: { blocks, dimensions },
+    },
+    usage: { pages: dimensions.length },
+  };
+}
+
+export const pdfTextAdapter: ParserAdapter = {
+  type: "pdf-text",
+  parse: parsePdfTextLayer,
+};
@@ -0,0 +1,76 @@
+// Shared polling for async job APIs (submit, then poll until done): exponential backoff with
+// jitter, a total deadline and cancellation through an AbortSignal.
+
+export interface PollOptions {
+  label: string; // Provider prefix for error messages, e.g. "LlamaParse"
+  deadlineMs: number; // Total time allowed for polling
+  initialDelayMs?: number; // Wait before the second poll (default 1s)
+  maxDelayMs?: number; // Backoff cap (default 10s)
+  factor?: number; // Backoff multiplier (default 1.5)
+  jitter?: number; // Random spread as a fraction of the delay (default 0.2, i.e. ±20%)
+  signal?: AbortSignal;
+}
+
+export interface PollStats {
+  polls: number; // Status requests made
+  queueTime: number; // Seconds from the first poll until the job finished
+}
+
+export function abortError(signal: AbortSignal): Error {
+  return signal.reason instanceof Error ? signal.reason : new DOMException("The operation was aborted", "AbortError");
+}
+
+// Resolve after ms, or reject as soon as the signal aborts
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError(signal));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError(signal!));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+// Delay before poll number `attempt + 1`, with backoff and jitter applied
+function getPollDelay(attempt: number, options: PollOptions): number {
+  const { initialDelayMs = 1000, maxDelayMs = 10_000, factor = 1.5, jitter = 0.2 } = options;
+  const base = Math.min(maxDelayMs, initialDelayMs * factor ** attempt);
+  return Math.max(0, base * (1 + jitter * (Math.random() * 2 - 1)));
+}
+
+// Call check until it returns a value; undefined means "still running". Errors thrown by
+// check (e.g. a failed job) end polling immediately.
+export async function pollJob<T>(
+  check: () => Promise<T | undefined>,
+  options: PollOptions
+): Promise<{ value: T; stats: PollStats }> {
+  const startTime = performance.now();
+  const deadline = startTime + options.deadlineMs;
+  let polls = 0;
+
+  for (let attempt = 0; ; attempt++) {
+    if (options.signal?.aborted) throw abortError(options.signal);
+
+    polls++;
+    const value = await check();
+    if (value !== undefined) {
+      return { value, stats: { polls, queueTime: (performance.now() - startTime) / 1000 } };
+    }
+
+    // Never sleep past the deadline; one last poll happens right at it
+    const remaining = deadline - performance.now();
+    if (remaining <= 0) break;
+    await sleep(Math.min(getPollDelay(attempt, options), remaining), options.signal);
+  }
+
+  console.warn(`[${options.label}] Gave up after ${polls} polls`);
+  throw new Error(`${options.label}: Processing timed out`);
+}
@@ -0,0 +1,64 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it, mock } from "node:test";
+import { DEFAULT_RETRY_POLICY } from "@/lib/providers";
+import { createRetryState, fetchWithRetry } from "./retry";
+
+// Responds with the given statuses in turn, or throws for "network"
+function mockFetch(...outcomes: (number | "network")[]) {
+  let call = 0;
+  return mock.method(globalThis, "fetch", async () => {
+    const outcome = outcomes[Math.min(call++, outcomes.length - 1)];
+    if (outcome === "network") throw new TypeError("fetch failed");
+    return new Response(null, { status: outcome });
+  });
+}
+
+const policy = { ...DEFAULT_RETRY_POLICY, initialDelayMs: 1, maxDelayMs: 1 };
+
+describe("fetchWithRetry", () => {
+  afterEach(() => mock.restoreAll());
+
+  it("repeats idempotent requests on server errors and network failures", async () => {
+    const fetch = mockFetch(503, "network", 200);
+    const retry = createRetryState(policy);
+    const response = await fetchWithRetry("https://example.com", {}, { retry, label: "test" });
+    assert.equal(response.status, 200);
+    assert.equal(fetch.mock.callCount(), 3);
+    assert.equal(retry.retries, 2);
+  });
+
+  it("does not repeat a submit after a server error", async () => {
+    const fetch = mockFetch(502, 200);
+    const retry = createRetryState(policy);
+    const response = await fetchWithRetry("https://example.com", {}, { retry, label: "test", idempotent: false });
+    assert.equal(response.status, 502);
+    assert.equal(fetch.mock.callCount(), 1);
+  });
+
+  it("does not repeat a submit after a dropped connection", async () => {
+    const fetch = mockFetch("network", 200);
+    const retry = createRetryState(policy);
+    await assert.rejects(
+      fetchWithRetry("https://example.com", {}, { retry, label: "test", idempotent: false }),
+      TypeError
+    );
+    assert.equal(fetch.mock.callCount(), 1);
+  });
+
+  it("repeats a submit that was rate limited", async () => {
+    const fetch = mockFetch(429, 200);
+    const retry = createRetryState(policy);
+    const response = await fetchWithRetry("https://example.com", {}, { retry, label: "test", idempotent: false });
+    assert.equal(response.status, 200);
+    assert.equal(fetch.mock.callCount(), 2);
+  });
+
+  it("flags rate limits that outlast the retries", async () => {
+    mockFetch(429);
+    const retry = createRetryState(policy);
+    const response = await fetchWithRetry("https://example.com", {}, { retry, label: "test" });
+    assert.equal(response.status, 429);
+    assert.equal(retry.exhausted, true);
+    assert.equal(retry.rateLimited, true);
+  });
+});
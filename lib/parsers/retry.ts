@@ -0,0 +1,113 @@
+import type { RetryPolicy } from "@/lib/providers";
+import { sleep } from "./polling";
+
+// Retry bookkeeping for one parse, shared by all of its upstream requests
+export interface RetryState {
+  policy: RetryPolicy;
+  retries: number; // Requests repeated after a transient failure
+  exhausted: boolean; // A request still failed transiently after its final attempt
+  rateLimited: boolean; // An exhausted request was last rejected with 429 (quota, not an outage)
+}
+
+export function createRetryState(policy: RetryPolicy): RetryState {
+  return { policy, retries: 0, exhausted: false, rateLimited: false };
+}
+
+function getRetryDelay(attempt: number, policy: RetryPolicy): number {
+  const base = Math.min(policy.maxDelayMs, policy.initialDelayMs * 2 ** attempt);
+  // Randomize half the delay so parallel runs do not retry in lockstep
+  return base / 2 + Math.random() * (base / 2);
+}
+
+// Run fn, repeating it while isTransient(error) holds and attempts remain
+export async function withRetry<T>(
+  fn: () => Promise<T>,
+  isTransient: (error: unknown) => boolean,
+  {
+    retry,
+    signal,
+    label,
+    onRetry,
+  }: { retry?: RetryState; signal?: AbortSignal; label: string; onRetry?: (error: unknown) => void }
+): Promise<T> {
+  const maxAttempts = retry?.policy.maxAttempts ?? 1;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (signal?.aborted || !isTransient(error)) throw error;
+      if (attempt + 1 >= maxAttempts) {
+        if (retry) {
+          retry.exhausted = true;
+          if (getErrorStatus(error) === 429) retry.rateLimited = true;
+        }
+        throw error;
+      }
+      const reason = error instanceof Error ? error.message : String(error);
+      console.warn(`[${label}] Transient failure, retrying (${attempt + 2}/${maxAttempts}): ${reason}`);
+      retry!.retries++;
+      onRetry?.(error);
+      await sleep(getRetryDelay(attempt, retry!.policy), signal);
+    }
+  }
+}
+
+// Marks a response whose status the policy retries
+class RetryableResponseError extends Error {
+  constructor(readonly response: Response) {
+    super(`HTTP ${response.status}`);
+  }
+}
+
+// HTTP status of a failed request: from fetchWithRetry, or the statusCode AI SDK errors carry
+function getErrorStatus(error: unknown): number | undefined {
+  if (error instanceof RetryableResponseError) return error.response.status;
+  const statusCode = (error as { statusCode?: unknown } | null)?.statusCode;
+  return typeof statusCode === "number" ? statusCode : undefined;
+}
+
+// Statuses that mean the request was turned away before it was processed
+const REJECTED_STATUSES = [425, 429];
+
+// fetch with the provider's retry policy: retryable statuses and network errors are repeated
+// with backoff. The final response is returned as-is, so callers keep their own error handling.
+// Requests that create upstream work (job submits) pass idempotent: false and are only repeated
+// when rejected outright: after a 5xx or a dropped connection the job may already exist.
+export async function fetchWithRetry(
+  url: string,
+  init: RequestInit,
+  { retry, label, idempotent = true }: { retry?: RetryState; label: string; idempotent?: boolean }
+): Promise<Response> {
+  const policyStatuses = retry?.policy.retryableStatuses ?? [];
+  const retryableStatuses = idempotent
+    ? policyStatuses
+    : policyStatuses.filter((status) => REJECTED_STATUSES.includes(status));
+  const signal = init.signal ?? undefined;
+
+  try {
+    return await withRetry(
+      async () => {
+        const response = await fetch(url, init);
+        if (retryableStatuses.includes(response.status)) {
+          throw new RetryableResponseError(response);
+        }
+        return response;
+      },
+      // fetch rejects with a TypeError when the connection fails
+      (error) => error instanceof RetryableResponseError || (idempotent && error instanceof TypeError),
+      {
+        retry,
+        signal,
+        label,
+        // Release the discarded response before trying again
+        onRetry: (error) => {
+          if (error instanceof RetryableResponseError) void error.response.body?.cancel();
+        },
+      }
+    );
+  } catch (error) {
+    if (error instanceof RetryableResponseError) return error.response;
+    throw error;
+  }
+}
@@ -0,0 +1,190 @@
+import { put } from "@vercel/blob";
+import { PDFDocument } from "pdf-lib";
+import { inferMimeType } from "@/lib/providers";
+import type { PageDimensions } from "@/lib/types";
+import type { ParserInput } from "./types";
+
+// Security: Maximum file size (10MB)
+export const MAX_FILE_SIZE = 10 * 1024 * 1024;
+
+// Helper to upload base64 image to Vercel Blob storage
+export async function uploadImageToBlob(base64: string, filename: string): Promise<string | null> {
+  const blobToken = process.env.BLOB_READ_WRITE_TOKEN;
+  if (!blobToken) {
+    console.log("BLOB_READ_WRITE_TOKEN not set, skipping blob upload");
+    return null;
+  }
+
+  try {
+    // Extract base64 data if it's a data URI
+    let base64Data = base64;
+    let mimeType = "image/png";
+    
+    if (base64.startsWith("data:")) {
+      const match = base64.match(/^data:([^;]+);base64,(.+)$/);
+      if (match) {
+        mimeType = match[1];
+        base64Data = match[2];
+      }
+    }
+
+    // Convert base64 to buffer
+    const buffer = Buffer.from(base64Data, "base64");
+    
+    // Upload to Vercel Blob
+    const blob = await put(`parse-benchmark/${filename}`, buffer, {
+      access: "public",
+      contentType: mimeType,
+      token: blobToken,
+    });
+
+    console.log("Uploaded image to blob:", blob.url);
+    return blob.url;
+  } catch (error) {
+    console.error("Failed to upload image to blob:", error);
+    return null;
+  }
+}
+
+// Fetch file from URL and convert to File object
+export async function fetchFileFromUrl(url: string, signal?: AbortSignal): Promise<File> {
+  const response = await fetch(url, {
+    headers: {
+      "User-Agent": "ParseBenchmark/1.0",
+    },
+    signal,
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch file from URL: ${response.status} ${response.statusText}`);
+  }
+
+  const contentType = response.headers.get("content-type") || "application/octet-stream";
+  const buffer = await response.arrayBuffer();
+  
+  // Validate file size
+  if (buffer.byteLength > MAX_FILE_SIZE) {
+    throw new Error("File too large (max 10MB)");
+  }
+
+  // Extract filename from URL
+  const urlPath = new URL(url).pathname;
+  const filename = urlPath.split("/").pop() || "document";
+  
+  // Determine MIME type
+  let mimeType = contentType.split(";")[0].trim();
+  if (mimeType === "application/octet-stream") {
+    // Try to infer from extension
+    mimeType = inferMimeType(filename) ?? mimeType;
+  }
+
+  return new File([buffer], filename, { type: mimeType });
+}
+
+// Strip PDF to only the first N pages to reduce processing time and cost
+export async function stripPdfToFirstPages(file: File, maxPages: number): Promise<File> {
+  // Only process PDFs
+  if (file.type !== "application/pdf" && !file.name.toLowerCase().endsWith(".pdf")) {
+    return file;
+  }
+
+  try {
+    const arrayBuffer = await file.arrayBuffer();
+    const pdfDoc = await PDFDocument.load(arrayBuffer);
+    const totalPages = pdfDoc.getPageCount();
+
+    // If already within limit, return original
+    if (totalPages <= maxPages) {
+      console.log(`[PDF Strip] Document has ${totalPages} pages, no stripping needed`);
+      return file;
+    }
+
+    console.log(`[PDF Strip] Stripping PDF from ${totalPages} to ${maxPages} pages`);
+
+    // Create a new PDF with only the first N pages
+    const newPdfDoc = await PDFDocument.create();
+    const pagesToCopy = await newPdfDoc.copyPages(pdfDoc, Array.from({ length: maxPages }, (_, i) => i));
+    
+    for (const page of pagesToCopy) {
+      newPdfDoc.addPage(page);
+    }
+
+    const pdfBytes = await newPdfDoc.save();
+    
+    // Create new File with stripped content (copy to new ArrayBuffer for type safety)
+    const strippedBuffer = new ArrayBuffer(pdfBytes.length);
+    const strippedView = new Uint8Array(strippedBuffer);
+    strippedView.set(pdfBytes);
+    
+    return new File([strippedBuffer], file.name, { type: "application/pdf" });
+  } catch (error) {
+    console.error("[PDF Strip] Error stripping PDF:", error);
+    // Return original file if stripping fails
+    return file;
+  }
+}
+
+// Resolve the input to a local file (fetching URLs) and strip PDFs to the provider's page limit
+export async function loadDocumentFile({ file, url, provider, signal }: ParserInput): Promise<File> {
+  let document = file;
+  if (!document && url) {
+    document = await fetchFileFromUrl(url, signal);
+  }
+  if (!document) {
+    throw new Error("No file or URL provided");
+  }
+  return stripPdfToFirstPages(document, provider.capabilities.maxPages);
+}
+
+export function escapeRegex(str: string): string {
+  return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+// Read pixel dimensions from an image header (PNG, JPEG, WebP, GIF)
+export function getImageDimensions(buffer: ArrayBuffer): PageDimensions | null {
+  const bytes = new Uint8Array(buffer);
+  const view = new DataView(buffer);
+
+  // PNG: IHDR chunk holds width/height as big-endian uint32
+  if (bytes[0] === 0x89 && bytes[1] === 0x50 && bytes.length >= 24) {
+    return { width: view.getUint32(16), height: view.getUint32(20) };
+  }
+
+  // GIF: logical screen size as little-endian uint16
+  if (bytes[0] === 0x47 && bytes[1] === 0x49 && bytes[2] === 0x46 && bytes.length >= 10) {
+    return { width: view.getUint16(6, true), height: view.getUint16(8, true) };
+  }
+
+  // JPEG: walk markers until a start-of-frame segment
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+    let offset = 2;
+    while (offset + 9 < bytes.length) {
+      if (bytes[offset] !== 0xff) return null;
+      const marker = bytes[offset + 1];
+      const length = view.getUint16(offset + 2);
+      if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+        return { width: view.getUint16(offset + 7), height: view.getUint16(offset + 5) };
+      }
+      offset += 2 + length;
+    }
+    return null;
+  }
+
+  // WebP: RIFF container with VP8 (lossy), VP8L (lossless) or VP8X (extended) chunk
+  if (bytes[0] === 0x52 && bytes[1] === 0x49 && bytes[8] === 0x57 && bytes.length >= 30) {
+    const chunk = String.fromCharCode(bytes[12], bytes[13], bytes[14], bytes[15]);
+    if (chunk === "VP8 ") {
+      return { width: view.getUint16(26, true) & 0x3fff, height: view.getUint16(28, true) & 0x3fff };
+    }
+    if (chunk === "VP8L") {
+      const bits = view.getUint32(21, true);
+      return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+    }
+    if (chunk === "VP8X") {
+      const width = 1 + (bytes[24] | (bytes[25] << 8) | (bytes[26] << 16));
+      const height = 1 + (bytes[27] | (bytes[28] << 8) | (bytes[29] << 16));
+      return { width, height };
+    }
+  }
+
+  return null;
+}
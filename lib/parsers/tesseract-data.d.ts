@@ -0,0 +1,6 @@
+// Traineddata packages ship plain CommonJS without type declarations
+declare module "@tesseract.js-data/eng" {
+  export const code: string;
+  export const gzip: boolean;
+  export const langPath: string;
+}
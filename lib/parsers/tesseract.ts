@@ -0,0 +1,118 @@
+import { createWorker, type Bbox } from "tesseract.js";
+import type { PageDimensions, ParseBlock } from "@/lib/types";
+import { abortError } from "./polling";
+import { getImageDimensions, loadDocumentFile } from "./shared";
+import type { ParserAdapter, ParserInput, ParserResult } from "./types";
+
+// Convert a Tesseract pixel bbox to normalized 0-1 fractions
+function normalizeBbox(bbox: Bbox, dims: PageDimensions | null): ParseBlock["bbox"] {
+  if (!dims) return undefined;
+  return {
+    x: bbox.x0 / dims.width,
+    y: bbox.y0 / dims.height,
+    w: (bbox.x1 - bbox.x0) / dims.width,
+    h: (bbox.y1 - bbox.y0) / dims.height,
+  };
+}
+
+async function parseTesseract(input: ParserInput): Promise<ParserResult> {
+  const file = await loadDocumentFile(input);
+  const buffer = await file.arrayBuffer();
+  const dims = getImageDimensions(buffer);
+
+  // Language data ships with the @tesseract.js-data package, so no CDN download is needed
+  const langData = await import("@tesseract.js-data/eng");
+  const worker = await createWorker(langData.code, undefined, {
+    langPath: langData.langPath,
+    gzip: langData.gzip,
+    cacheMethod: "none",
+  });
+
+  // Runs once whether the abort or the finally block gets there first; a failed terminate is only
+  // logged, so it cannot replace the error (or abort) the parse is already rejecting with
+  let terminating: Promise<void> | undefined;
+  const terminate = () =>
+    (terminating ??= worker.terminate().then(
+      () => {},
+      (error) => console.warn("[Tesseract] Failed to terminate worker:", error)
+    ));
+
+  // Terminating the worker is the only way to stop a recognition in progress; it leaves the
+  // recognize promise pending, so the abort rejects in its place
+  const signal = input.signal;
+  let onAbort = () => {};
+  const aborted = new Promise<never>((_, reject) => {
+    onAbort = () => {
+      void terminate();
+      reject(abortError(signal!));
+    };
+  });
+  signal?.addEventListener("abort", onAbort, { once: true });
+
+  try {
+    signal?.throwIfAborted();
+    const { data } = await Promise.race([
+      worker.recognize(Buffer.from(buffer), {}, { text: true, blocks: true }),
+      aborted,
+    ]);
+
+    const paragraphs = (data.blocks ?? []).flatMap((block) => block.paragraphs);
+    const markdown = paragraphs
+      .map((paragraph) => paragraph.lines.map((line) => line.text.trim()).join("\n"))
+      .filter(Boolean)
+      .join("\n\n");
+
+    const granularity = input.options.granularity ?? "line";
+    const blocks: ParseBlock[] = [];
+    let blockId = 0;
+
+    for (const paragraph of paragraphs) {
+      for (const line of paragraph.lines) {
+        if (granularity === "word") {
+          for (const word of line.words) {
+            blocks.push({
+              id: `tesseract-${blockId++}`,
+              type: "text",
+              content: word.text,
+              bbox: normalizeBbox(word.bbox, dims),
+              confidence: word.confidence / 100,
+              pageIndex: 0,
+            });
+          }
+        } else {
+          blocks.push({
+            id: `tesseract-${blockId++}`,
+            type: "text",
+            content: line.text.trim(),
+            bbox: normalizeBbox(line.bbox, dims),
+            confidence: line.confidence / 100,
+            pageIndex: 0,
+          });
+        }
+      }
+    }
+
+    console.log(`[Tesseract] ${granularity} blocks: ${blocks.length}, confidence: ${data.confidence}`);
+
+    return {
+      outputs: {
+        markdown,
+        json: blocks.length > 0 ? { blocks, dimensions: dims ? [dims] : undefined } : undefined,
+      },
+      usage: { pages: 1 },
+      raw: { text: data.text, confidence: data.confidence },
+    };
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    console.error("[Tesseract] Recognition failed:", error);
+    throw new Error("Tesseract: Failed to recognize document");
+  } finally {
+    signal?.removeEventListener("abort", onAbort);
+    await terminate();
+  }
+}
+
+export const tesseractAdapter: ParserAdapter = {
+  type: "tesseract",
+  parse: parseTesseract,
+};
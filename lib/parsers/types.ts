@@ -0,0 +1,42 @@
+import type { ProviderConfig, ProviderOptions, ProviderType } from "@/lib/providers";
+import type { PromptInfo, PromptSelection } from "@/lib/prompts";
+import type { GenerationSettings, ParseOutputs } from "@/lib/types";
+import type { PollStats } from "./polling";
+import type { RetryState } from "./retry";
+
+// Document handed to an adapter: exactly one of file or url is set
+export interface ParserInput {
+  file: File | null;
+  url: string | null;
+  provider: ProviderConfig;
+  options: ProviderOptions; // Validated provider options, defaults applied
+  apiKey?: string; // User-supplied key for the provider's service; takes precedence over the env var
+  prompt?: PromptSelection; // Vision LLMs: prompt template chosen for the run
+  onText?: (delta: string, pageIndex: number) => void; // Streamed requests: receives markdown deltas per page
+  signal?: AbortSignal; // Aborts upstream requests and job polling
+  retry?: RetryState; // Provider retry policy; adapters count repeated requests into it
+}
+
+// Usage reported by an adapter, used by the route to compute cost
+export interface ParserUsage {
+  pages?: number;
+  inputTokens?: number;
+  outputTokens?: number;
+}
+
+// Normalized result of a single parse run
+export interface ParserResult {
+  outputs: ParseOutputs;
+  usage: ParserUsage;
+  prompt?: PromptInfo; // Prompt the model was given, for reproducibility
+  generation?: GenerationSettings; // Vision LLMs: generation parameters actually sent
+  truncatedPages?: number[]; // Vision LLMs: pages that hit the output token limit (1-based)
+  polling?: PollStats; // Async job APIs: status polls and time spent waiting for the job
+  raw?: unknown; // Upstream response, kept server-side for debugging
+}
+
+// Contract every provider implementation fulfils
+export interface ParserAdapter {
+  type: ProviderType;
+  parse(input: ParserInput): Promise<ParserResult>;
+}
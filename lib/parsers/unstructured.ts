@@ -0,0 +1,207 @@
+import type { ProviderOptions } from "@/lib/providers";
+import type { PageDimensions, ParseBlock } from "@/lib/types";
+import { fetchWithRetry, type RetryState } from "./retry";
+import { loadDocumentFile } from "./shared";
+import type { ParserAdapter, ParserInput, ParserResult } from "./types";
+
+// Unstructured API default port when running the container locally
+const UNSTRUCTURED_DEFAULT_BASE_URL = "http://localhost:8000";
+
+interface UnstructuredElement {
+  type: string;
+  element_id: string;
+  text: string;
+  metadata?: {
+    page_number?: number;
+    text_as_html?: string;
+    coordinates?: {
+      points: Array<[number, number]>;
+      system: string;
+      layout_width: number;
+      layout_height: number;
+    };
+  };
+}
+
+function mapUnstructuredType(type: string): ParseBlock["type"] {
+  const typeMap: Record<string, ParseBlock["type"]> = {
+    "Title": "title",
+    "NarrativeText": "text",
+    "UncategorizedText": "text",
+    "Text": "text",
+    "Address": "text",
+    "EmailAddress": "text",
+    "FigureCaption": "text",
+    "ListItem": "list",
+    "Table": "table",
+    "Image": "figure",
+    "Figure": "figure",
+    "Formula": "equation",
+    "CodeSnippet": "code",
+    "Header": "header",
+    "Footer": "footer",
+    "PageNumber": "footer",
+  };
+  return typeMap[type] || "unknown";
+}
+
+function normalizeUnstructuredBlocks(elements: UnstructuredElement[]): { blocks: ParseBlock[]; dimensions: (PageDimensions | null)[] } {
+  const blocks: ParseBlock[] = [];
+  const dimensions: PageDimensions[] = [];
+  let blockId = 0;
+
+  for (const element of elements) {
+    if (element.type === "PageBreak") continue;
+
+    const pageIndex = (element.metadata?.page_number ?? 1) - 1;
+    const coords = element.metadata?.coordinates;
+
+    let bbox: ParseBlock["bbox"] = undefined;
+    if (coords && coords.points.length >= 4 && coords.layout_width && coords.layout_height) {
+      const xs = coords.points.map(p => p[0]);
+      const ys = coords.points.map(p => p[1]);
+      const minX = Math.min(...xs);
+      const minY = Math.min(...ys);
+      bbox = {
+        x: minX / coords.layout_width,
+        y: minY / coords.layout_height,
+        w: (Math.max(...xs) - minX) / coords.layout_width,
+        h: (Math.max(...ys) - minY) / coords.layout_height,
+      };
+      dimensions[pageIndex] ??= { width: coords.layout_width, height: coords.layout_height };
+    }
+
+    blocks.push({
+      id: `unstructured-${blockId++}`,
+      type: mapUnstructuredType(element.type),
+      content: element.metadata?.text_as_html || element.text,
+      bbox,
+      pageIndex,
+    });
+  }
+
+  console.log(`[Unstructured] Total blocks: ${blocks.length}, with bbox: ${blocks.filter(b => b.bbox).length}`);
+  // Pages without coordinates stay as null so the array still lines up with pageIndex
+  return { blocks, dimensions: Array.from(dimensions, (size) => size ?? null) };
+}
+
+// Unstructured has no markdown output, so render elements the way the other parsers do
+function unstructuredToMarkdown(elements: UnstructuredElement[]): string {
+  const parts: string[] = [];
+  let lastPage = 1;
+
+  for (const element of elements) {
+    const page = element.metadata?.page_number ?? lastPage;
+    if (page !== lastPage) {
+      parts.push("---");
+      lastPage = page;
+    }
+
+    switch (element.type) {
+      case "PageBreak":
+        break;
+      case "Title":
+        parts.push(`## ${element.text}`);
+        break;
+      case "ListItem":
+        parts.push(`- ${element.text}`);
+        break;
+      case "Table":
+        parts.push(element.metadata?.text_as_html || element.text);
+        break;
+      case "Formula":
+        parts.push(`$$\n${element.text}\n$$`);
+        break;
+      case "CodeSnippet":
+        parts.push("```\n" + element.text + "\n```");
+        break;
+      default:
+        if (element.text) parts.push(element.text);
+    }
+  }
+
+  return parts.join("\n\n");
+}
+
+async function partitionWithUnstructured(
+  file: File,
+  baseUrl: string,
+  apiKey: string | undefined,
+  options: ProviderOptions,
+  signal?: AbortSignal,
+  retry?: RetryState
+): Promise<UnstructuredElement[]> {
+  const formData = new FormData();
+  formData.append("files", file);
+  formData.append("strategy", String(options.strategy ?? "hi_res"));
+  formData.append("coordinates", "true");
+  formData.append("pdf_infer_table_structure", String(options.pdf_infer_table_structure ?? true));
+  formData.append("output_format", "application/json");
+
+  const headers: HeadersInit = { "Accept": "application/json" };
+  if (apiKey) {
+    headers["unstructured-api-key"] = apiKey;
+  }
+
+  let response: Response;
+  try {
+    response = await fetchWithRetry(
+      `${baseUrl.replace(/\/$/, "")}/general/v0/general`,
+      { method: "POST", headers, body: formData, signal },
+      { retry, label: "Unstructured" }
+    );
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    console.error("Unstructured connection error:", error);
+    throw new Error("Unstructured: Could not reach server");
+  }
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error("Unstructured partition error:", errorText);
+    throw new Error("Unstructured: Failed to partition document");
+  }
+
+  return response.json() as Promise<UnstructuredElement[]>;
+}
+
+async function parseUnstructured(input: ParserInput): Promise<ParserResult> {
+  const file = await loadDocumentFile(input);
+  const baseUrl = input.provider.baseUrl ?? process.env.UNSTRUCTURED_BASE_URL ?? UNSTRUCTURED_DEFAULT_BASE_URL;
+
+  const apiKey = input.apiKey ?? process.env.UNSTRUCTURED_API_KEY;
+
+  const elements = await partitionWithUnstructured(
+    file,
+    baseUrl,
+    apiKey,
+    input.options,
+    input.signal,
+    input.retry
+  );
+  const markdown = unstructuredToMarkdown(elements);
+  const { blocks, dimensions } = normalizeUnstructuredBlocks(elements);
+
+  // HTML tab shows the tables, as with Mistral OCR
+  const tablesHtml = elements
+    .map((e) => e.metadata?.text_as_html)
+    .filter(Boolean)
+    .join("\n");
+
+  const pages = new Set(elements.map((e) => e.metadata?.page_number ?? 1)).size;
+
+  return {
+    outputs: {
+      markdown,
+      html: tablesHtml || undefined,
+      json: blocks.length > 0 ? { blocks, dimensions: dimensions.length > 0 ? dimensions : undefined } : undefined,
+    },
+    usage: { pages: pages || 1 },
+    raw: elements,
+  };
+}
+
+export const unstructuredAdapter: ParserAdapter = {
+  type: "unstructured",
+  parse: parseUnstructured,
+};
@@ -0,0 +1,123 @@
+// Prompt templates for vision LLM parsing (markdown output mode), selectable and editable per run
+
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  description: string;
+  prompt: string;
+}
+
+// Prompt actually sent for a run, as requested by the client
+export interface PromptSelection {
+  templateId: string;
+  text: string;
+}
+
+// Recorded on each result so runs stay comparable after prompts are edited
+export interface PromptInfo {
+  template: string; // Template id
+  hash: string; // Short SHA-256 of the exact prompt text
+  edited?: boolean; // Text differs from the built-in template
+}
+
+export const MAX_PROMPT_LENGTH = 8000;
+
+export const DEFAULT_PROMPT_TEMPLATE_ID = "generic";
+
+export const PROMPT_TEMPLATES: PromptTemplate[] = [
+  {
+    id: "generic",
+    name: "Generic",
+    description: "Any document, structure-preserving markdown",
+    prompt: `You are a document parsing assistant. Extract ALL text content from this document/image accurately and completely.
+
+Instructions:
+- Preserve the original structure (headings, paragraphs, lists, tables)
+- For tables, use markdown table format
+- Include all visible text, numbers, and data
+- Maintain the reading order (left-to-right, top-to-bottom)
+- If there are multiple columns, process them in logical order
+- Do not add any commentary or explanations
+- Do not summarize - extract the complete text
+
+Output the extracted text in clean markdown format.`,
+  },
+  {
+    id: "invoice",
+    name: "Invoice",
+    description: "Invoices, receipts and purchase orders",
+    prompt: `You are a document parsing assistant specialized in invoices and receipts. Extract ALL text content from this document/image accurately and completely.
+
+Instructions:
+- Start with the issuer and recipient blocks (names, addresses, tax IDs) as separate paragraphs
+- Keep invoice metadata (number, dates, due date, PO number, payment terms) as "Label: value" lines
+- Render line items as a markdown table with the original column headers, one row per item
+- Reproduce amounts, currencies, quantities and percentages exactly as printed; do not recompute totals
+- Put subtotal, tax, discounts and total after the table as "Label: value" lines
+- Include footer text such as bank details and notes
+- Do not add any commentary or explanations
+
+Output the extracted text in clean markdown format.`,
+  },
+  {
+    id: "handwriting",
+    name: "Handwriting",
+    description: "Handwritten notes and forms",
+    prompt: `You are a document parsing assistant specialized in handwritten documents. Transcribe ALL text in this document/image exactly as written.
+
+Instructions:
+- Transcribe verbatim: keep the writer's spelling, abbreviations and punctuation; do not correct them
+- Keep line breaks where the writer started a new line
+- Mark words you cannot read as [illegible]; mark uncertain readings as [word?]
+- Transcribe crossed-out text as ~~text~~ when it is still readable
+- For forms, pair printed labels with the handwritten entries as "Label: value"
+- Maintain the reading order (left-to-right, top-to-bottom), including margin notes at the end
+- Do not add any commentary or explanations
+
+Output the transcription in clean markdown format.`,
+  },
+  {
+    id: "math",
+    name: "Math / LaTeX",
+    description: "Equations and scientific documents",
+    prompt: `You are a document parsing assistant specialized in mathematical and scientific documents. Extract ALL content from this document/image accurately and completely.
+
+Instructions:
+- Write every mathematical expression in LaTeX: inline math as $...$, display equations as $$...$$ on their own lines
+- Keep equation numbers with \\tag{n} inside the display math
+- Preserve theorem, lemma, proof and definition headings as bold labels
+- Use markdown headings for section titles and markdown tables for tables
+- Keep variable names, subscripts, superscripts and symbols exactly as printed
+- Maintain the reading order (left-to-right, top-to-bottom)
+- Do not add any commentary, do not solve or simplify anything
+
+Output the extracted content in clean markdown format.`,
+  },
+  {
+    id: "tables",
+    name: "Table-heavy",
+    description: "Financial statements and data tables",
+    prompt: `You are a document parsing assistant specialized in tabular documents such as financial statements. Extract ALL content from this document/image accurately and completely.
+
+Instructions:
+- Render every table as a markdown table, preserving the column order and header rows
+- For multi-level headers, combine the levels into one header row (e.g. "2023 Revenue")
+- For merged cells, repeat the value in every cell it spans
+- Keep numbers exactly as printed, including parentheses for negatives, currency symbols, footnote markers and units
+- Keep empty cells empty; do not shift values between columns
+- Put table titles and notes as paragraphs directly before or after their table
+- Do not add any commentary or explanations
+
+Output the extracted content in clean markdown format.`,
+  },
+];
+
+export function getPromptTemplate(templateId: string): PromptTemplate | null {
+  return PROMPT_TEMPLATES.find((template) => template.id === templateId) ?? null;
+}
+
+// Short SHA-256 of the prompt text (Web Crypto, so it runs in the browser and on the server)
+export async function hashPrompt(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest).slice(0, 6), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
@@ -0,0 +1,73 @@
+import assert from "node:assert/strict";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import { buildProviderCatalog, getProviderRegistry } from "./provider-registry";
+
+const CONFIG = `
+includeDefaults: false
+providers:
+  - id: local-llm
+    name: Local LLM
+    type: openai-compatible
+    modelId: qwen2.5vl:7b
+    baseUrl: http://localhost:11434/v1
+  - id: inhouse
+    name: In-house Parser
+    type: custom-http
+    modelId: inhouse-v1
+    capabilities: { detachedJob: true }
+    http:
+      url: https://parser.example.com/v1/parse
+      request: multipart
+      auth: { header: Authorization, env: TEST_INHOUSE_PARSER_TOKEN }
+      mapping:
+        markdown: $.markdown
+`;
+
+describe("buildProviderCatalog", () => {
+  let dir: string;
+
+  before(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "provider-config-"));
+    await writeFile(path.join(dir, "providers.yaml"), CONFIG);
+    process.env.PROVIDERS_CONFIG = path.join(dir, "providers.yaml");
+    delete process.env.OPENAI_COMPATIBLE_BASE_URL;
+    delete process.env.TEST_INHOUSE_PARSER_TOKEN;
+  });
+
+  after(async () => {
+    delete process.env.PROVIDERS_CONFIG;
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("treats a baseUrl from the config file as a configured endpoint", async () => {
+    const catalog = buildProviderCatalog(await getProviderRegistry());
+    const entry = catalog.find((provider) => provider.id === "local-llm");
+    assert.equal(entry?.configured, true);
+    assert.equal(entry?.missing, undefined);
+    // The endpoint itself stays server-side
+    assert.equal(entry?.baseUrl, undefined);
+  });
+
+  it("reports a custom HTTP parser whose auth secret is unset", async () => {
+    const catalog = buildProviderCatalog(await getProviderRegistry());
+    const entry = catalog.find((provider) => provider.id === "inhouse");
+    assert.equal(entry?.configured, false);
+    assert.equal(entry?.missing, "api-key");
+    assert.equal(entry?.http, undefined);
+  });
+
+  it("accepts every capability the provider type declares as an override", async () => {
+    const catalog = buildProviderCatalog(await getProviderRegistry());
+    assert.equal(catalog.find((provider) => provider.id === "inhouse")?.capabilities.detachedJob, true);
+  });
+
+  it("reports the custom HTTP parser as configured once the secret is set", async () => {
+    process.env.TEST_INHOUSE_PARSER_TOKEN = "secret";
+    const catalog = buildProviderCatalog(await getProviderRegistry());
+    assert.equal(catalog.find((provider) => provider.id === "inhouse")?.configured, true);
+    delete process.env.TEST_INHOUSE_PARSER_TOKEN;
+  });
+});
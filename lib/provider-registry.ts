@@ -0,0 +1,335 @@
+import { readFile, stat } from "node:fs/promises";
+import path from "node:path";
+import { parse as parseYaml } from "yaml";
+import { z } from "zod";
+import {
+  OCR_PAGE_PRICING,
+  PRICING,
+  PROVIDER_TYPE_DEFAULTS,
+  PROVIDERS,
+  type ProviderCapabilities,
+  type ProviderCatalogEntry,
+  type ProviderConfig,
+  type ProviderType,
+} from "@/lib/providers";
+import { getApiKeyService } from "@/lib/api-keys";
+import { queryJsonPath } from "@/lib/parsers/json-path";
+import { BLOCK_TYPES } from "@/lib/types";
+
+// Providers and prices in effect for this deployment: the built-in defaults merged with
+// the optional provider config file (PROVIDERS_CONFIG, or providers.config.{json,yaml,yml})
+export interface ProviderRegistry {
+  providers: ProviderConfig[];
+  pricing: Record<string, { input: number; output: number }>; // Per 1M tokens, keyed by provider id
+  pagePricing: Record<string, number>; // Per page, keyed by provider id
+  source: string | null; // Config file path, null when running on defaults
+}
+
+const DEFAULT_CONFIG_FILES = ["providers.config.json", "providers.config.yaml", "providers.config.yml"];
+
+// ============================================================================
+// Config file schema
+// ============================================================================
+
+const providerTypeSchema = z.enum(Object.keys(PROVIDER_TYPE_DEFAULTS) as [ProviderType, ...ProviderType[]]);
+
+const jsonPathSchema = z.string().refine((value) => {
+  try {
+    queryJsonPath(null, value);
+    return true;
+  } catch {
+    return false;
+  }
+}, "Invalid JSONPath");
+
+const capabilitiesSchema = z.object({
+  mimeTypes: z.array(z.string()).min(1),
+  maxPages: z.number().int().min(1).max(50),
+  bboxes: z.boolean(),
+  html: z.boolean(),
+  json: z.boolean(),
+  billing: z.enum(["page", "token"]),
+  pdfInput: z.enum(["native", "rasterize"]).optional(),
+  streaming: z.boolean().optional(),
+  detachedJob: z.boolean().optional(),
+}).strict();
+
+const optionFieldSchema = z.discriminatedUnion("type", [
+  z.object({
+    key: z.string(),
+    label: z.string(),
+    description: z.string().optional(),
+    type: z.literal("boolean"),
+    default: z.boolean(),
+  }),
+  z.object({
+    key: z.string(),
+    label: z.string(),
+    description: z.string().optional(),
+    type: z.literal("text"),
+    default: z.string(),
+    maxLength: z.number().int().positive(),
+  }),
+  z.object({
+    key: z.string(),
+    label: z.string(),
+    description: z.string().optional(),
+    type: z.literal("select"),
+    default: z.string(),
+    choices: z.array(z.string()).min(1),
+  }),
+  z.object({
+    key: z.string(),
+    label: z.string(),
+    description: z.string().optional(),
+    type: z.literal("number"),
+    default: z.number().optional(),
+    min: z.number(),
+    max: z.number(),
+    step: z.number().positive().optional(),
+    integer: z.boolean().optional(),
+  }),
+]);
+
+const customHttpSchema = z.object({
+  url: z.string().url(),
+  request: z.enum(["multipart", "json"]),
+  fileField: z.string().optional(),
+  fields: z.record(z.string()).optional(),
+  auth: z.object({
+    header: z.string(),
+    env: z.string(),
+    prefix: z.string().optional(),
+  }).strict().optional(),
+  mapping: z.object({
+    markdown: jsonPathSchema,
+    html: jsonPathSchema.optional(),
+    pages: jsonPathSchema.optional(),
+    blocks: jsonPathSchema.optional(),
+    block: z.object({
+      content: jsonPathSchema.optional(),
+      type: jsonPathSchema.optional(),
+      page: jsonPathSchema.optional(),
+      bbox: jsonPathSchema.optional(),
+      confidence: jsonPathSchema.optional(),
+    }).strict().optional(),
+    typeMap: z.record(z.enum(BLOCK_TYPES)).optional(),
+    bboxFormat: z.enum(["xywh", "xyxy"]).optional(),
+    pageBase: z.union([z.literal(0), z.literal(1)]).optional(),
+    pageWidth: jsonPathSchema.optional(),
+    pageHeight: jsonPathSchema.optional(),
+  }).strict(),
+}).strict();
+
+const retryPolicySchema = z.object({
+  maxAttempts: z.number().int().min(1).max(10),
+  retryableStatuses: z.array(z.number().int().min(400).max(599)),
+  initialDelayMs: z.number().int().min(0),
+  maxDelayMs: z.number().int().min(0),
+  breakerThreshold: z.number().int().min(1),
+  breakerCooldownMs: z.number().int().min(0),
+}).strict();
+
+// Token prices per 1M tokens, or a flat per-page price
+const priceSchema = z.union([
+  z.object({ input: z.number().min(0), output: z.number().min(0) }).strict(),
+  z.object({ page: z.number().min(0) }).strict(),
+]);
+
+// Entries either override a built-in provider (matched by id) or add a new one
+const providerEntrySchema = z.object({
+  id: z.string().regex(/^[a-z0-9][a-z0-9._-]*$/, "Use lowercase letters, digits, '.', '_' and '-'"),
+  name: z.string().min(1).optional(),
+  model: z.string().optional(),
+  description: z.string().optional(),
+  color: z.string().regex(/^#[0-9a-fA-F]{3,8}$/, "Use a hex color").optional(),
+  modelId: z.string().min(1).optional(),
+  baseUrl: z.string().url().optional(),
+  type: providerTypeSchema.optional(),
+  categoryLabel: z.string().optional(),
+  capabilities: capabilitiesSchema.partial().optional(),
+  options: z.array(optionFieldSchema).optional(),
+  http: customHttpSchema.optional(),
+  retry: retryPolicySchema.partial().optional(),
+  price: priceSchema.optional(),
+}).strict();
+
+const providerConfigFileSchema = z.object({
+  includeDefaults: z.boolean().default(true), // false: only the providers listed here
+  hide: z.array(z.string()).default([]), // Provider ids to remove (e.g. no API key for them)
+  providers: z.array(providerEntrySchema).default([]),
+}).strict();
+
+type ProviderEntry = z.infer<typeof providerEntrySchema>;
+
+// ============================================================================
+// Loading and merging
+// ============================================================================
+
+function mergeProviderEntry(base: ProviderConfig | undefined, entry: Omit<ProviderEntry, "price">): ProviderConfig {
+  const { capabilities, ...fields } = entry;
+
+  if (base) {
+    if (entry.type && entry.type !== base.type) {
+      throw new Error(`Provider config: "${entry.id}" cannot change the type of a built-in provider`);
+    }
+    return { ...base, ...fields, capabilities: { ...base.capabilities, ...capabilities } };
+  }
+
+  if (!entry.name || !entry.type || !entry.modelId) {
+    throw new Error(`Provider config: new provider "${entry.id}" needs name, type and modelId`);
+  }
+  if (entry.type === "custom-http" && !entry.http) {
+    throw new Error(`Provider config: custom-http provider "${entry.id}" needs an http section`);
+  }
+
+  const defaults = PROVIDER_TYPE_DEFAULTS[entry.type];
+  return {
+    ...defaults,
+    ...fields,
+    id: entry.id,
+    name: entry.name,
+    type: entry.type,
+    modelId: entry.modelId,
+    model: entry.model ?? entry.modelId,
+    description: entry.description ?? defaults.categoryLabel,
+    color: entry.color ?? "#71717a",
+    categoryLabel: entry.categoryLabel ?? defaults.categoryLabel,
+    capabilities: { ...defaults.capabilities, ...capabilities } as ProviderCapabilities,
+  };
+}
+
+function buildRegistry(fileConfig: z.infer<typeof providerConfigFileSchema>, source: string): ProviderRegistry {
+  const byId = new Map<string, ProviderConfig>(
+    fileConfig.includeDefaults ? PROVIDERS.map((provider) => [provider.id, provider]) : []
+  );
+  const pricing = { ...PRICING };
+  const pagePricing = { ...OCR_PAGE_PRICING };
+
+  for (const { price, ...entry } of fileConfig.providers) {
+    const provider = mergeProviderEntry(byId.get(entry.id), entry);
+    byId.set(provider.id, provider);
+
+    if (price && "page" in price) {
+      pagePricing[provider.id] = price.page;
+    } else if (price) {
+      pricing[provider.id] = price;
+    }
+  }
+
+  for (const id of fileConfig.hide) {
+    if (!byId.delete(id)) {
+      console.warn(`[Provider config] Unknown provider in hide list: ${id}`);
+    }
+  }
+
+  const providers = Array.from(byId.values());
+  if (providers.length === 0) {
+    throw new Error("Provider config: no providers left after merging");
+  }
+
+  return { providers, pricing, pagePricing, source };
+}
+
+async function findConfigFile(): Promise<string | null> {
+  if (process.env.PROVIDERS_CONFIG) {
+    return path.resolve(process.cwd(), process.env.PROVIDERS_CONFIG);
+  }
+  for (const name of DEFAULT_CONFIG_FILES) {
+    const candidate = path.join(process.cwd(), name);
+    try {
+      await stat(candidate);
+      return candidate;
+    } catch {
+      // Not present, try the next name
+    }
+  }
+  return null;
+}
+
+async function loadRegistryFromFile(file: string): Promise<ProviderRegistry> {
+  const text = await readFile(file, "utf8");
+
+  let data: unknown;
+  try {
+    data = /\.ya?ml$/i.test(file) ? parseYaml(text) : JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Provider config: could not parse ${file}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const result = providerConfigFileSchema.safeParse(data ?? {});
+  if (!result.success) {
+    const issues = result.error.issues.map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`);
+    throw new Error(`Provider config: invalid ${file}\n  ${issues.join("\n  ")}`);
+  }
+
+  const registry = buildRegistry(result.data, file);
+  console.log(`[Provider config] Loaded ${registry.providers.length} providers from ${file}`);
+  return registry;
+}
+
+const DEFAULT_REGISTRY: ProviderRegistry = {
+  providers: PROVIDERS,
+  pricing: PRICING,
+  pagePricing: OCR_PAGE_PRICING,
+  source: null,
+};
+
+// Reloaded when the file changes, so edits apply without a redeploy
+let cached: { file: string; mtimeMs: number; registry: ProviderRegistry } | null = null;
+
+export async function getProviderRegistry(): Promise<ProviderRegistry> {
+  const file = await findConfigFile();
+  if (!file) return DEFAULT_REGISTRY;
+
+  const { mtimeMs } = await stat(file);
+  if (cached && cached.file === file && cached.mtimeMs === mtimeMs) {
+    return cached.registry;
+  }
+
+  const registry = await loadRegistryFromFile(file);
+  cached = { file, mtimeMs, registry };
+  return registry;
+}
+
+// Provider list safe to send to the browser: endpoint URLs and HTTP mappings stay server-side
+export function toClientProviders(providers: ProviderConfig[]): ProviderConfig[] {
+  return providers.map((provider) => {
+    const clientProvider = { ...provider };
+    delete clientProvider.baseUrl;
+    delete clientProvider.http;
+    return clientProvider;
+  });
+}
+
+// What the server lacks to run a provider, from its env vars (user keys are checked client-side)
+function getMissingSetup(provider: ProviderConfig): ProviderCatalogEntry["missing"] {
+  if (provider.type === "openai-compatible" && !provider.baseUrl && !process.env.OPENAI_COMPATIBLE_BASE_URL) {
+    return "endpoint";
+  }
+  if (provider.type === "custom-http") {
+    return provider.http?.auth && !process.env[provider.http.auth.env] ? "api-key" : undefined;
+  }
+  // On Vercel the gateway also authenticates with the deployment's OIDC token
+  if (provider.type === "ai-gateway" && process.env.VERCEL_OIDC_TOKEN) {
+    return undefined;
+  }
+
+  const service = getApiKeyService(provider.type);
+  return service?.required && !process.env[service.envVar] ? "api-key" : undefined;
+}
+
+// Provider catalog for GET /api/providers. Setup is checked on the full entries: the client
+// copies no longer have the baseUrl and http settings it depends on.
+export function buildProviderCatalog(registry: ProviderRegistry): ProviderCatalogEntry[] {
+  const clientProviders = toClientProviders(registry.providers);
+  return registry.providers.map((serverProvider, i) => {
+    const provider = clientProviders[i];
+    const missing = getMissingSetup(serverProvider);
+    const pagePrice = registry.pagePricing[provider.id];
+    const pricing = provider.capabilities.billing === "page"
+      ? (pagePrice !== undefined ? { page: pagePrice } : null)
+      : (registry.pricing[provider.id] ?? null);
+    return { ...provider, pricing, configured: !missing, missing };
+  });
+}
@@ -1,11 +1,360 @@
-import { gateway } from "@ai-sdk/gateway";
+import { createGateway, gateway } from "@ai-sdk/gateway";
+import { createOpenAI } from "@ai-sdk/openai";
+import { z } from "zod";
+import type { ParseBlock } from "@/lib/types";
 
-// Provider type: AI Gateway or dedicated OCR services
-export type ProviderType = "ai-gateway" | "llamaparse" | "mistral-ocr" | "datalab-marker";
+// Provider type: AI Gateway, OpenAI-compatible endpoints, dedicated OCR services,
+// self-hosted parser servers or local baselines
+export type ProviderType =
+  | "ai-gateway"
+  | "openai-compatible"
+  | "llamaparse"
+  | "mistral-ocr"
+  | "datalab-marker"
+  | "tesseract"
+  | "pdf-text"
+  | "docling"
+  | "unstructured"
+  | "custom-http";
 
 // Provider category for UI differentiation
 export type ProviderCategory = "parser" | "vision-llm";
 
+// How a provider is billed: per processed page or per input/output token
+export type BillingUnit = "page" | "token";
+
+// What a provider accepts and returns, read by the UI and the API route
+export interface ProviderCapabilities {
+  mimeTypes: string[]; // Accepted input MIME types
+  maxPages: number; // Pages processed per document (PDFs are stripped to this)
+  bboxes: boolean; // Returns blocks with bounding boxes
+  html: boolean; // Returns an HTML rendition
+  json: boolean; // Returns structured blocks
+  billing: BillingUnit;
+  pdfInput?: "native" | "rasterize"; // Vision LLMs: send PDF pages as file parts or as rendered images
+  streaming?: boolean; // Streams markdown deltas over SSE while parsing
+  detachedJob?: boolean; // Submitted job keeps running (and billing) upstream when a run is cancelled
+}
+
+export const IMAGE_MIME_TYPES = ["image/png", "image/jpeg", "image/jpg", "image/webp", "image/gif"];
+export const PDF_MIME_TYPE = "application/pdf";
+
+// Maximum pages to process for PDF documents (to control costs)
+export const MAX_PDF_PAGES = 2;
+
+const LLAMAPARSE_CAPABILITIES: ProviderCapabilities = {
+  mimeTypes: [...IMAGE_MIME_TYPES, PDF_MIME_TYPE],
+  maxPages: MAX_PDF_PAGES,
+  bboxes: true,
+  html: false,
+  json: true,
+  billing: "page",
+  detachedJob: true,
+};
+
+const MISTRAL_OCR_CAPABILITIES: ProviderCapabilities = {
+  mimeTypes: [...IMAGE_MIME_TYPES, PDF_MIME_TYPE],
+  maxPages: MAX_PDF_PAGES,
+  bboxes: true,
+  html: true,
+  json: true,
+  billing: "page",
+};
+
+const MARKER_CAPABILITIES: ProviderCapabilities = {
+  mimeTypes: [...IMAGE_MIME_TYPES, PDF_MIME_TYPE],
+  maxPages: MAX_PDF_PAGES,
+  bboxes: true,
+  html: true,
+  json: true,
+  billing: "page",
+  detachedJob: true,
+};
+
+const TESSERACT_CAPABILITIES: ProviderCapabilities = {
+  mimeTypes: ["image/png", "image/jpeg", "image/jpg", "image/webp"],
+  maxPages: 1,
+  bboxes: true,
+  html: false,
+  json: true,
+  billing: "page",
+};
+
+const PDF_TEXT_CAPABILITIES: ProviderCapabilities = {
+  mimeTypes: [PDF_MIME_TYPE],
+  maxPages: MAX_PDF_PAGES,
+  bboxes: true,
+  html: false,
+  json: true,
+  billing: "page",
+};
+
+const SELF_HOSTED_PARSER_CAPABILITIES: ProviderCapabilities = {
+  mimeTypes: [...IMAGE_MIME_TYPES, PDF_MIME_TYPE],
+  maxPages: MAX_PDF_PAGES,
+  bboxes: true,
+  html: true,
+  json: true,
+  billing: "page",
+};
+
+// Vision LLMs get PDFs page by page, rendered to images unless the model reads PDFs natively.
+// Blocks and bboxes are only returned in the "blocks" output mode.
+const VISION_LLM_CAPABILITIES: ProviderCapabilities = {
+  mimeTypes: [...IMAGE_MIME_TYPES, PDF_MIME_TYPE],
+  maxPages: MAX_PDF_PAGES,
+  bboxes: true,
+  html: false,
+  json: true,
+  billing: "token",
+  pdfInput: "rasterize",
+  streaming: true,
+};
+
+const VISION_LLM_NATIVE_PDF_CAPABILITIES: ProviderCapabilities = {
+  ...VISION_LLM_CAPABILITIES,
+  pdfInput: "native",
+};
+
+// Provider-specific knob, rendered in the options panel and validated by the API route
+export type ProviderOptionField = {
+  key: string;
+  label: string;
+  description?: string;
+} & (
+  | { type: "boolean"; default: boolean }
+  | { type: "text"; default: string; maxLength: number }
+  | { type: "select"; default: string; choices: string[] }
+  // No default: the option is omitted unless set, leaving the provider's own default
+  | { type: "number"; default?: number; min: number; max: number; step?: number; integer?: boolean }
+);
+
+// Declarative response mapping for custom HTTP parsers. Paths use a JSONPath subset
+// ($, .key, ['key'], [n], [*]); block paths are relative to each matched block ($ = the block).
+export interface CustomHttpMapping {
+  markdown: string; // All matches are joined with page separators
+  html?: string;
+  pages?: string; // Page count; defaults to the number of markdown matches
+  blocks?: string; // Path to the block objects
+  block?: {
+    content?: string;
+    type?: string; // Raw type, mapped through typeMap when given
+    page?: string; // Page number (see pageBase)
+    bbox?: string; // [x0, y0, x1, y1] / [x, y, w, h] array or { x, y, w, h } object
+    confidence?: string;
+  };
+  typeMap?: Record<string, ParseBlock["type"]>;
+  bboxFormat?: "xywh" | "xyxy"; // Array layout (default xywh)
+  pageBase?: 0 | 1; // Whether page numbers start at 0 or 1 (default 1)
+  // Page size in pixels (block-relative, falling back to the response root); when set,
+  // bboxes are treated as pixels and normalized by it
+  pageWidth?: string;
+  pageHeight?: string;
+}
+
+// In-house parser behind an HTTP endpoint, described entirely by configuration
+export interface CustomHttpConfig {
+  url: string;
+  request: "multipart" | "json"; // multipart file upload, or JSON body with base64 file
+  fileField?: string; // Defaults to "file"
+  fields?: Record<string, string>; // Extra form fields / JSON properties
+  auth?: {
+    header: string; // e.g. "Authorization"
+    env: string; // Env var holding the secret (never stored in config)
+    prefix?: string; // e.g. "Bearer "
+  };
+  mapping: CustomHttpMapping;
+}
+
+// Retries for transient upstream failures (per request), plus the circuit breaker that
+// fast-fails a provider once parses keep failing after exhausting their retries
+export interface RetryPolicy {
+  maxAttempts: number; // Per upstream request, including the first try
+  retryableStatuses: number[];
+  initialDelayMs: number; // Backoff before the first retry, doubled per attempt
+  maxDelayMs: number;
+  breakerThreshold: number; // Consecutive failed parses that open the circuit
+  breakerCooldownMs: number; // How long an open circuit rejects requests
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  retryableStatuses: [408, 425, 429, 500, 502, 503, 504],
+  initialDelayMs: 500,
+  maxDelayMs: 5000,
+  breakerThreshold: 5,
+  breakerCooldownMs: 60_000,
+};
+
+// Entry of the GET /api/providers catalog: client-safe config plus pricing and server setup status
+export interface ProviderCatalogEntry extends ProviderConfig {
+  pricing: { input: number; output: number } | { page: number } | null; // Per 1M tokens, or per page
+  configured: boolean; // The server has the API key and endpoint the provider needs
+  missing?: "api-key" | "endpoint"; // What the server lacks when not configured
+}
+
+// Option values keyed by ProviderOptionField.key
+export type ProviderOptions = Record<string, string | boolean | number>;
+
+const LLAMAPARSE_OPTIONS: ProviderOptionField[] = [
+  {
+    key: "parsing_instruction",
+    label: "Parsing instructions",
+    description: "Natural-language guidance for the parser",
+    type: "text",
+    default: "",
+    maxLength: 2000,
+  },
+  {
+    key: "disable_ocr",
+    label: "Disable OCR",
+    description: "Only extract selectable text",
+    type: "boolean",
+    default: false,
+  },
+];
+
+const MISTRAL_OCR_OPTIONS: ProviderOptionField[] = [
+  {
+    key: "include_image_base64",
+    label: "Include images",
+    description: "Return extracted images and embed them inline",
+    type: "boolean",
+    default: true,
+  },
+  {
+    key: "table_format",
+    label: "Table format",
+    type: "select",
+    default: "html",
+    choices: ["html", "markdown"],
+  },
+];
+
+const TESSERACT_OPTIONS: ProviderOptionField[] = [
+  {
+    key: "granularity",
+    label: "Block granularity",
+    description: "Emit one block per line or per word",
+    type: "select",
+    default: "line",
+    choices: ["line", "word"],
+  },
+];
+
+const DOCLING_OPTIONS: ProviderOptionField[] = [
+  {
+    key: "do_ocr",
+    label: "OCR",
+    description: "Run OCR on bitmap content",
+    type: "boolean",
+    default: true,
+  },
+  {
+    key: "table_mode",
+    label: "Table mode",
+    type: "select",
+    default: "accurate",
+    choices: ["fast", "accurate"],
+  },
+];
+
+const UNSTRUCTURED_OPTIONS: ProviderOptionField[] = [
+  {
+    key: "strategy",
+    label: "Strategy",
+    description: "hi_res runs layout detection and returns coordinates",
+    type: "select",
+    default: "hi_res",
+    choices: ["auto", "fast", "hi_res", "ocr_only"],
+  },
+  {
+    key: "pdf_infer_table_structure",
+    label: "Infer table structure",
+    description: "Return tables as HTML",
+    type: "boolean",
+    default: true,
+  },
+];
+
+const VISION_LLM_OPTIONS: ProviderOptionField[] = [
+  {
+    key: "output_mode",
+    label: "Output mode",
+    description: "blocks asks for typed blocks with bounding boxes (schema-constrained)",
+    type: "select",
+    default: "markdown",
+    choices: ["markdown", "blocks"],
+  },
+  {
+    key: "temperature",
+    label: "Temperature",
+    description: "Sampling temperature (model default when empty)",
+    type: "number",
+    min: 0,
+    max: 2,
+    step: 0.1,
+  },
+  {
+    key: "max_output_tokens",
+    label: "Max output tokens",
+    description: "Per page; output beyond this is cut off and flagged as truncated",
+    type: "number",
+    min: 256,
+    max: 64000,
+    step: 256,
+    integer: true,
+  },
+  {
+    key: "seed",
+    label: "Seed",
+    description: "Best-effort deterministic sampling, where the model supports it",
+    type: "number",
+    min: 0,
+    max: 2147483647,
+    integer: true,
+  },
+];
+
+// Models with a thinking mode also take a reasoning budget
+const VISION_LLM_REASONING_OPTIONS: ProviderOptionField[] = [
+  ...VISION_LLM_OPTIONS,
+  {
+    key: "reasoning_budget",
+    label: "Thinking budget",
+    description: "Tokens the model may spend thinking before answering (model default when empty)",
+    type: "number",
+    min: 0,
+    max: 32000,
+    step: 1024,
+    integer: true,
+  },
+];
+
+const MARKER_OPTIONS: ProviderOptionField[] = [
+  {
+    key: "force_ocr",
+    label: "Force OCR",
+    description: "OCR every page, even with a text layer",
+    type: "boolean",
+    default: false,
+  },
+  {
+    key: "paginate",
+    label: "Paginate",
+    description: "Add page separators to the output",
+    type: "boolean",
+    default: false,
+  },
+  {
+    key: "use_llm",
+    label: "Use LLM",
+    description: "Improve tables and forms with an LLM pass",
+    type: "boolean",
+    default: false,
+  },
+];
+
 // Provider definitions for UI and API
 export interface ProviderConfig {
   id: string;
@@ -14,11 +363,73 @@ export interface ProviderConfig {
   description: string;
   color: string;
   modelId: string; // Format: provider/model for AI Gateway, tier/mode for OCR services
+  baseUrl?: string; // Self-hosted endpoint (defaults to the provider type's *_BASE_URL env var)
   type: ProviderType;
   category: ProviderCategory;
   categoryLabel: string; // Human-readable category description
+  capabilities: ProviderCapabilities;
+  options?: ProviderOptionField[];
+  http?: CustomHttpConfig; // Required for custom-http providers
+  retry?: Partial<RetryPolicy>; // Overrides DEFAULT_RETRY_POLICY
 }
 
+// Per-type defaults for providers added through the provider config file
+export const PROVIDER_TYPE_DEFAULTS: Record<
+  ProviderType,
+  Pick<ProviderConfig, "category" | "categoryLabel" | "capabilities" | "options">
+> = {
+  "ai-gateway": {
+    category: "vision-llm",
+    categoryLabel: "Vision LLM",
+    capabilities: VISION_LLM_CAPABILITIES,
+    options: VISION_LLM_OPTIONS,
+  },
+  "openai-compatible": {
+    category: "vision-llm",
+    categoryLabel: "Vision LLM",
+    capabilities: VISION_LLM_CAPABILITIES,
+    options: VISION_LLM_OPTIONS,
+  },
+  "llamaparse": {
+    category: "parser",
+    categoryLabel: "Document Parser",
+    capabilities: LLAMAPARSE_CAPABILITIES,
+    options: LLAMAPARSE_OPTIONS,
+  },
+  "mistral-ocr": {
+    category: "parser",
+    categoryLabel: "Document Parser",
+    capabilities: MISTRAL_OCR_CAPABILITIES,
+    options: MISTRAL_OCR_OPTIONS,
+  },
+  "datalab-marker": {
+    category: "parser",
+    categoryLabel: "Document Parser",
+    capabilities: MARKER_CAPABILITIES,
+    options: MARKER_OPTIONS,
+  },
+  "docling": {
+    category: "parser",
+    categoryLabel: "Self-hosted Parser",
+    capabilities: SELF_HOSTED_PARSER_CAPABILITIES,
+    options: DOCLING_OPTIONS,
+  },
+  "unstructured": {
+    category: "parser",
+    categoryLabel: "Self-hosted Parser",
+    capabilities: SELF_HOSTED_PARSER_CAPABILITIES,
+    options: UNSTRUCTURED_OPTIONS,
+  },
+  "tesseract": {
+    category: "parser",
+    categoryLabel: "Local OCR",
+    capabilities: TESSERACT_CAPABILITIES,
+    options: TESSERACT_OPTIONS,
+  },
+  "pdf-text": { category: "parser", categoryLabel: "Text Layer", capabilities: PDF_TEXT_CAPABILITIES },
+  "custom-http": { category: "parser", categoryLabel: "Custom Parser", capabilities: SELF_HOSTED_PARSER_CAPABILITIES },
+};
+
 export const PROVIDERS: ProviderConfig[] = [
   // Specialized Document Parsers
   {
@@ -31,6 +442,34 @@ export const PROVIDERS: ProviderConfig[] = [
     type: "llamaparse",
     category: "parser",
     categoryLabel: "Document Parser",
+    capabilities: LLAMAPARSE_CAPABILITIES,
+    options: LLAMAPARSE_OPTIONS,
+  },
+  {
+    id: "llamaparse-agentic",
+    name: "LlamaParse Agentic",
+    model: "agentic",
+    description: "LlamaIndex",
+    color: "#8b5cf6",
+    modelId: "agentic",
+    type: "llamaparse",
+    category: "parser",
+    categoryLabel: "Document Parser",
+    capabilities: LLAMAPARSE_CAPABILITIES,
+    options: LLAMAPARSE_OPTIONS,
+  },
+  {
+    id: "llamaparse-agentic-plus",
+    name: "LlamaParse Agentic Plus",
+    model: "agentic-plus",
+    description: "LlamaIndex",
+    color: "#7c3aed",
+    modelId: "agentic-plus",
+    type: "llamaparse",
+    category: "parser",
+    categoryLabel: "Document Parser",
+    capabilities: LLAMAPARSE_CAPABILITIES,
+    options: LLAMAPARSE_OPTIONS,
   },
   {
     id: "mistral-ocr",
@@ -42,6 +481,8 @@ export const PROVIDERS: ProviderConfig[] = [
     type: "mistral-ocr",
     category: "parser",
     categoryLabel: "Document Parser",
+    capabilities: MISTRAL_OCR_CAPABILITIES,
+    options: MISTRAL_OCR_OPTIONS,
   },
   {
     id: "datalab-marker",
@@ -53,6 +494,87 @@ export const PROVIDERS: ProviderConfig[] = [
     type: "datalab-marker",
     category: "parser",
     categoryLabel: "Document Parser",
+    capabilities: MARKER_CAPABILITIES,
+    options: MARKER_OPTIONS,
+  },
+  {
+    id: "datalab-marker-balanced",
+    name: "Marker Balanced",
+    model: "balanced",
+    description: "Datalab",
+    color: "#0d9488",
+    modelId: "balanced",
+    type: "datalab-marker",
+    category: "parser",
+    categoryLabel: "Document Parser",
+    capabilities: MARKER_CAPABILITIES,
+    options: MARKER_OPTIONS,
+  },
+  {
+    id: "datalab-marker-accurate",
+    name: "Marker Accurate",
+    model: "accurate",
+    description: "Datalab",
+    color: "#0f766e",
+    modelId: "accurate",
+    type: "datalab-marker",
+    category: "parser",
+    categoryLabel: "Document Parser",
+    capabilities: MARKER_CAPABILITIES,
+    options: MARKER_OPTIONS,
+  },
+  // Self-hosted parser servers (Docling-serve, Unstructured API)
+  {
+    id: "docling",
+    name: "Docling",
+    model: "docling-serve",
+    description: "Self-hosted",
+    color: "#f472b6",
+    modelId: "docling-serve",
+    type: "docling",
+    category: "parser",
+    categoryLabel: "Self-hosted Parser",
+    capabilities: SELF_HOSTED_PARSER_CAPABILITIES,
+    options: DOCLING_OPTIONS,
+  },
+  {
+    id: "unstructured",
+    name: "Unstructured",
+    model: "unstructured-api",
+    description: "Self-hosted",
+    color: "#e879f9",
+    modelId: "unstructured-api",
+    type: "unstructured",
+    category: "parser",
+    categoryLabel: "Self-hosted Parser",
+    capabilities: SELF_HOSTED_PARSER_CAPABILITIES,
+    options: UNSTRUCTURED_OPTIONS,
+  },
+  // Local baselines (free, offline)
+  {
+    id: "tesseract",
+    name: "Tesseract",
+    model: "tesseract-eng",
+    description: "Local OCR",
+    color: "#94a3b8",
+    modelId: "tesseract-eng",
+    type: "tesseract",
+    category: "parser",
+    categoryLabel: "Local OCR",
+    capabilities: TESSERACT_CAPABILITIES,
+    options: TESSERACT_OPTIONS,
+  },
+  {
+    id: "pdf-text",
+    name: "PDF Text Layer",
+    model: "pdfjs",
+    description: "Embedded text",
+    color: "#cbd5e1",
+    modelId: "pdf-text",
+    type: "pdf-text",
+    category: "parser",
+    categoryLabel: "Text Layer",
+    capabilities: PDF_TEXT_CAPABILITIES,
   },
   // Vision LLMs via AI Gateway
   {
@@ -65,6 +587,8 @@ export const PROVIDERS: ProviderConfig[] = [
     type: "ai-gateway",
     category: "vision-llm",
     categoryLabel: "Vision LLM",
+    capabilities: VISION_LLM_CAPABILITIES,
+    options: VISION_LLM_OPTIONS,
   },
   {
     id: "gpt-4o-mini",
@@ -76,6 +600,8 @@ export const PROVIDERS: ProviderConfig[] = [
     type: "ai-gateway",
     category: "vision-llm",
     categoryLabel: "Vision LLM",
+    capabilities: VISION_LLM_CAPABILITIES,
+    options: VISION_LLM_OPTIONS,
   },
   {
     id: "claude-sonnet-4",
@@ -87,6 +613,8 @@ export const PROVIDERS: ProviderConfig[] = [
     type: "ai-gateway",
     category: "vision-llm",
     categoryLabel: "Vision LLM",
+    capabilities: VISION_LLM_NATIVE_PDF_CAPABILITIES,
+    options: VISION_LLM_REASONING_OPTIONS,
   },
   {
     id: "claude-haiku-35",
@@ -98,6 +626,8 @@ export const PROVIDERS: ProviderConfig[] = [
     type: "ai-gateway",
     category: "vision-llm",
     categoryLabel: "Vision LLM",
+    capabilities: VISION_LLM_NATIVE_PDF_CAPABILITIES,
+    options: VISION_LLM_OPTIONS,
   },
   {
     id: "gemini-2-flash",
@@ -109,6 +639,8 @@ export const PROVIDERS: ProviderConfig[] = [
     type: "ai-gateway",
     category: "vision-llm",
     categoryLabel: "Vision LLM",
+    capabilities: VISION_LLM_NATIVE_PDF_CAPABILITIES,
+    options: VISION_LLM_OPTIONS,
   },
   {
     id: "gemini-25-pro",
@@ -120,33 +652,133 @@ export const PROVIDERS: ProviderConfig[] = [
     type: "ai-gateway",
     category: "vision-llm",
     categoryLabel: "Vision LLM",
+    capabilities: VISION_LLM_NATIVE_PDF_CAPABILITIES,
+    options: VISION_LLM_REASONING_OPTIONS,
+  },
+  // Self-hosted vision models via an OpenAI-compatible endpoint
+  {
+    id: "local-vision",
+    name: "Local Vision",
+    model: "qwen2.5vl:7b",
+    description: "OpenAI-compatible",
+    color: "#a1a1aa",
+    modelId: "qwen2.5vl:7b",
+    type: "openai-compatible",
+    category: "vision-llm",
+    categoryLabel: "Vision LLM",
+    capabilities: VISION_LLM_CAPABILITIES,
+    options: VISION_LLM_OPTIONS,
   },
 ];
 
-// Get provider config by ID (with validation)
-export function getProviderConfig(providerId: string): ProviderConfig | null {
-  return PROVIDERS.find((p) => p.id === providerId) ?? null;
+// Get provider config by ID (with validation); pass the loaded registry's list on the server
+export function getProviderConfig(providerId: string, providers: ProviderConfig[] = PROVIDERS): ProviderConfig | null {
+  return providers.find((p) => p.id === providerId) ?? null;
 }
 
 // Validate provider ID
-export function isValidProviderId(providerId: string): boolean {
-  return PROVIDERS.some((p) => p.id === providerId);
+export function isValidProviderId(providerId: string, providers: ProviderConfig[] = PROVIDERS): boolean {
+  return providers.some((p) => p.id === providerId);
+}
+
+// Infer a MIME type from a filename or URL path extension
+export function inferMimeType(filename: string): string | null {
+  const lower = filename.toLowerCase().split(/[?#]/)[0];
+  if (lower.endsWith(".pdf")) return PDF_MIME_TYPE;
+  if (lower.endsWith(".png")) return "image/png";
+  if (/\.jpe?g$/.test(lower)) return "image/jpeg";
+  if (lower.endsWith(".webp")) return "image/webp";
+  if (lower.endsWith(".gif")) return "image/gif";
+  return null;
+}
+
+// Check whether a provider accepts the given input MIME type
+export function supportsMimeType(config: ProviderConfig, mimeType: string): boolean {
+  return config.capabilities.mimeTypes.includes(mimeType);
+}
+
+const ANTHROPIC_MIN_THINKING_BUDGET = 1024;
+
+// Build the zod schema validating a provider's options (missing keys fall back to defaults)
+export function getOptionsSchema(config: ProviderConfig) {
+  const shape: Record<string, z.ZodTypeAny> = {};
+  for (const field of config.options ?? []) {
+    if (field.type === "boolean") {
+      shape[field.key] = z.boolean().default(field.default);
+    } else if (field.type === "text") {
+      shape[field.key] = z.string().max(field.maxLength).default(field.default);
+    } else if (field.type === "number") {
+      const number = (field.integer ? z.number().int() : z.number()).min(field.min).max(field.max);
+      shape[field.key] = field.default === undefined ? number.optional() : number.default(field.default);
+    } else {
+      shape[field.key] = z.enum(field.choices as [string, ...string[]]).default(field.default);
+    }
+  }
+  const schema = z.object(shape).strict();
+
+  // Anthropic rejects thinking budgets below its minimum or not below the output limit upstream,
+  // with an error that does not say which option was wrong
+  const thinks = config.options?.some((field) => field.key === "reasoning_budget");
+  if (!thinks || config.type !== "ai-gateway" || !config.modelId.startsWith("anthropic/")) return schema;
+  return schema.superRefine((options, ctx) => {
+    const budget = options.reasoning_budget;
+    const maxOutputTokens = options.max_output_tokens;
+    if (typeof budget !== "number") return;
+    if (budget < ANTHROPIC_MIN_THINKING_BUDGET) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["reasoning_budget"],
+        message: `Thinking budget must be at least ${ANTHROPIC_MIN_THINKING_BUDGET} tokens for ${config.name}`,
+      });
+    } else if (typeof maxOutputTokens === "number" && budget >= maxOutputTokens) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["reasoning_budget"],
+        message: `Thinking budget must be less than max output tokens (${maxOutputTokens}) for ${config.name}`,
+      });
+    }
+  });
+}
+
+// Default option values for a provider
+export function getDefaultOptions(config: ProviderConfig): ProviderOptions {
+  const defaults: ProviderOptions = {};
+  for (const field of config.options ?? []) {
+    if (field.default !== undefined) defaults[field.key] = field.default;
+  }
+  return defaults;
+}
+
+export function getRetryPolicy(config: ProviderConfig): RetryPolicy {
+  return { ...DEFAULT_RETRY_POLICY, ...config.retry };
 }
 
-// Get model instance for AI Gateway providers
-export function getModel(providerId: string) {
-  const config = getProviderConfig(providerId);
-  if (!config) {
-    throw new Error(`Invalid provider: ${providerId}`);
+// Get model instance for AI Gateway providers; apiKey is a user-supplied key overriding the env var
+export function getModel(config: ProviderConfig, apiKey?: string) {
+  // OpenAI-compatible /v1/chat/completions endpoint (Ollama, vLLM, LM Studio)
+  // Without an explicit baseUrl, endpoint and model come from OPENAI_COMPATIBLE_* env vars
+  if (config.type === "openai-compatible") {
+    const baseURL = config.baseUrl ?? process.env.OPENAI_COMPATIBLE_BASE_URL;
+    if (!baseURL) {
+      throw new Error("OpenAI-compatible: Base URL not configured");
+    }
+    const modelId = config.baseUrl ? config.modelId : process.env.OPENAI_COMPATIBLE_MODEL ?? config.modelId;
+    const provider = createOpenAI({
+      name: config.id,
+      baseURL,
+      // Local servers usually ignore the key, but the client requires one
+      apiKey: apiKey ?? process.env.OPENAI_COMPATIBLE_API_KEY ?? "not-needed",
+    });
+    return provider.chat(modelId);
   }
 
   if (config.type !== "ai-gateway") {
-    throw new Error(`Provider ${providerId} is not an AI Gateway provider`);
+    throw new Error(`Provider ${config.id} is not a vision LLM provider`);
   }
 
   // AI Gateway uses format: provider/model
   // Authentication via AI_GATEWAY_API_KEY env var is automatic
-  return gateway(config.modelId);
+  return apiKey ? createGateway({ apiKey })(config.modelId) : gateway(config.modelId);
 }
 
 // Pricing per 1M tokens (approximate, for cost estimation)
@@ -159,26 +791,32 @@ export const PRICING: Record<string, { input: number; output: number }> = {
   "gemini-25-pro": { input: 1.25, output: 10 },
 };
 
-// Per-page pricing for dedicated OCR services
+// Per-page pricing for dedicated OCR services, by provider id like PRICING
 export const OCR_PAGE_PRICING: Record<string, number> = {
   // LlamaParse tiers
-  "cost-effective": 0.003,
-  "agentic": 0.01,
-  "agentic-plus": 0.03,
+  "llamaparse": 0.003,
+  "llamaparse-agentic": 0.01,
+  "llamaparse-agentic-plus": 0.03,
   // Mistral OCR
-  "mistral-ocr-latest": 0.001,
+  "mistral-ocr": 0.001,
   // Datalab Marker modes
-  "fast": 0.005,
-  "balanced": 0.01,
-  "accurate": 0.02,
+  "datalab-marker": 0.005,
+  "datalab-marker-balanced": 0.01,
+  "datalab-marker-accurate": 0.02,
+  // Self-hosted parsers and local baselines
+  "docling": 0,
+  "unstructured": 0,
+  "tesseract": 0,
+  "pdf-text": 0,
 };
 
 export function calculateCost(
   providerId: string,
   inputTokens: number,
-  outputTokens: number
+  outputTokens: number,
+  pricingTable: Record<string, { input: number; output: number }> = PRICING
 ): number {
-  const pricing = PRICING[providerId];
+  const pricing = pricingTable[providerId];
   if (!pricing) return 0;
   
   return (
@@ -187,7 +825,12 @@ export function calculateCost(
   );
 }
 
-export function calculatePageCost(modelId: string, pages: number): number {
-  const pricePerPage = OCR_PAGE_PRICING[modelId] ?? 0.001;
+// Providers without a configured price (custom or self-hosted parsers) cost nothing, as in calculateCost
+export function calculatePageCost(
+  providerId: string,
+  pages: number,
+  pricingTable: Record<string, number> = OCR_PAGE_PRICING
+): number {
+  const pricePerPage = pricingTable[providerId] ?? 0;
   return pages * pricePerPage;
 }
@@ -0,0 +1,42 @@
+// Server-Sent Events framing for streamed parse responses (event name + JSON data)
+
+export const SSE_CONTENT_TYPE = "text/event-stream";
+
+export function encodeSseEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+// Read an SSE response body, calling onEvent for every complete event
+export async function readSseEvents(
+  response: Response,
+  onEvent: (event: string, data: unknown) => void
+): Promise<void> {
+  if (!response.body) return;
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += value;
+
+    let boundary = buffer.indexOf("\n\n");
+    while (boundary !== -1) {
+      const chunk = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+
+      let event = "message";
+      const dataLines: string[] = [];
+      for (const line of chunk.split("\n")) {
+        if (line.startsWith("event:")) event = line.slice(6).trim();
+        else if (line.startsWith("data:")) dataLines.push(line.slice(5).trimStart());
+      }
+      if (dataLines.length > 0) {
+        onEvent(event, JSON.parse(dataLines.join("\n")));
+      }
+
+      boundary = buffer.indexOf("\n\n");
+    }
+  }
+}
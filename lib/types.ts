@@ -1,3 +1,5 @@
+import type { PromptInfo } from "@/lib/prompts";
+
 // Bounding box with normalized coordinates (0-1 fractions of page dimensions)
 export interface BBox {
   x: number;
@@ -6,10 +8,15 @@ export interface BBox {
   h: number;
 }
 
+// Block types shared by all providers (adapters map their native labels onto these)
+export const BLOCK_TYPES = [
+  "text", "table", "figure", "title", "list", "header", "footer", "code", "equation", "unknown",
+] as const;
+
 // Individual block from document parsing
 export interface ParseBlock {
   id: string;
-  type: "text" | "table" | "figure" | "title" | "list" | "header" | "footer" | "code" | "equation" | "unknown";
+  type: (typeof BLOCK_TYPES)[number];
   content: string;
   bbox?: BBox;
   confidence?: number;
@@ -28,7 +35,7 @@ export interface ParseOutputs {
   html?: string;
   json?: {
     blocks: ParseBlock[];
-    dimensions?: PageDimensions[];
+    dimensions?: (PageDimensions | null)[]; // By pageIndex; null for pages the provider gave no size for
   };
 }
 
@@ -38,15 +45,30 @@ export interface ParseStats {
   cost: number;
   tokens: number;
   pages?: number;
+  ttft?: number; // Seconds until the first streamed token (streaming providers only)
+  generation?: GenerationSettings; // Vision LLMs: parameters the model was called with
+  truncatedPages?: number[]; // Vision LLMs: pages cut off at the output token limit (1-based)
+  polls?: number; // Async job APIs: status requests made while waiting
+  queueTime?: number; // Async job APIs: seconds spent waiting for the job to finish
+  retries?: number; // Upstream requests repeated after transient failures (retry policy)
+}
+
+// Generation parameters for a vision LLM call; unset fields leave the model default
+export interface GenerationSettings {
+  temperature?: number;
+  maxOutputTokens?: number;
+  seed?: number;
+  reasoningBudget?: number; // Thinking tokens (Claude extended thinking, Gemini thinking budget)
 }
 
 // Complete parse result
 export interface ParseResult {
   providerId: string;
-  status: "idle" | "parsing" | "complete" | "error" | "skipped";
+  status: "idle" | "parsing" | "complete" | "error" | "skipped" | "cancelled";
   content?: string; // Backward compatible - same as outputs.markdown
   outputs?: ParseOutputs;
   stats?: ParseStats;
+  prompt?: PromptInfo; // Vision LLMs: prompt template name and hash
   error?: string;
   skipReason?: string; // Reason for skipping (e.g., "PDF not supported")
 }
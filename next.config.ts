@@ -1,7 +1,9 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // Tesseract spawns worker threads and reads traineddata from its package directory at runtime;
+  // pdfjs loads its worker module by path; @napi-rs/canvas is a native addon for page rendering
+  serverExternalPackages: ["tesseract.js", "@tesseract.js-data/eng", "pdfjs-dist", "@napi-rs/canvas"],
 };
 
 export default nextConfig;